@@ -0,0 +1,19 @@
+import { runMigrations } from './services/migrator';
+
+/**
+ * Aplica as migrações pendentes e sai: `npm run migrate` (ou `node dist/migrate.js` no container).
+ * Num banco vazio cria todas as tabelas que o serviço usa, para rodar localmente sem o projeto principal.
+ */
+runMigrations()
+    .then(({ applied, alreadyApplied }) => {
+        if (applied.length === 0) {
+            console.log(`[Migrate] Schema em dia (${alreadyApplied} migrações já aplicadas).`);
+        } else {
+            console.log(`[Migrate] ${applied.length} migração(ões) aplicada(s).`);
+        }
+        process.exit(0);
+    })
+    .catch((e) => {
+        console.error('[Migrate] Erro:', e.message || e);
+        process.exit(1);
+    });
@@ -0,0 +1,72 @@
+import { Migration } from './types';
+
+/**
+ * Tabelas do projeto principal que este serviço lê/escreve, só com as colunas que usa.
+ * Num banco novo (ambiente local) cria tudo; no banco compartilhado só garante o que falta.
+ */
+export const migration: Migration = {
+    version: 1,
+    name: 'base_tables',
+    statements: [
+        `CREATE TABLE IF NOT EXISTS "User" (
+            id TEXT PRIMARY KEY,
+            reputation INTEGER NOT NULL DEFAULT 0
+        )`,
+        `CREATE TABLE IF NOT EXISTS "Subject" (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            color TEXT,
+            icon TEXT
+        )`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS "Subject_name_key" ON "Subject" (name)`,
+        `CREATE TABLE IF NOT EXISTS "Question" (
+            id TEXT PRIMARY KEY,
+            title TEXT NOT NULL,
+            text TEXT NOT NULL,
+            week TEXT,
+            "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            views INTEGER NOT NULL DEFAULT 0,
+            "isVerified" BOOLEAN NOT NULL DEFAULT false,
+            "verificationRequested" BOOLEAN NOT NULL DEFAULT false,
+            "userId" TEXT NOT NULL REFERENCES "User"(id),
+            "subjectId" TEXT REFERENCES "Subject"(id)
+        )`,
+        `CREATE TABLE IF NOT EXISTS "Alternative" (
+            id TEXT PRIMARY KEY,
+            letter TEXT NOT NULL,
+            text TEXT NOT NULL,
+            "isCorrect" BOOLEAN NOT NULL DEFAULT false,
+            "questionId" TEXT NOT NULL REFERENCES "Question"(id) ON DELETE CASCADE
+        )`,
+        `CREATE TABLE IF NOT EXISTS "Comment" (
+            id TEXT PRIMARY KEY,
+            text TEXT NOT NULL,
+            "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+            "userId" TEXT NOT NULL REFERENCES "User"(id),
+            "questionId" TEXT NOT NULL REFERENCES "Question"(id) ON DELETE CASCADE
+        )`,
+        `CREATE TABLE IF NOT EXISTS "ImportJob" (
+            id TEXT PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            login TEXT NOT NULL,
+            password TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'PENDING',
+            logs JSONB,
+            "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            "completedAt" TIMESTAMP(3)
+        )`,
+        `CREATE TABLE IF NOT EXISTS "ScrapeHistory" (
+            id TEXT PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            year TEXT NOT NULL,
+            "examId" TEXT NOT NULL,
+            "examName" TEXT NOT NULL,
+            "completedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )`,
+        // saveScrapeHistory usa ON CONFLICT ("userId", "examId")
+        `CREATE UNIQUE INDEX IF NOT EXISTS "ScrapeHistory_userId_examId_key" ON "ScrapeHistory" ("userId", "examId")`,
+    ]
+};
@@ -0,0 +1,40 @@
+import { Migration } from './types';
+import { JOB_NOTIFY_CHANNEL } from '../services/schema';
+
+/**
+ * Controle de execução do "ImportJob": cancelamento, lease, retentativas,
+ * checkpoint, driver, escopo e o trigger de NOTIFY que acorda os workers.
+ */
+export const migration: Migration = {
+    version: 2,
+    name: 'import_job_control',
+    statements: [
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "cancelRequestedAt" TIMESTAMP(3)`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "cancelRequestedBy" TEXT`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "workerId" TEXT`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "leaseExpiresAt" TIMESTAMP(3)`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "leaseReclaimedAt" TIMESTAMP(3)`,
+        `CREATE INDEX IF NOT EXISTS "ImportJob_status_leaseExpiresAt_idx" ON "ImportJob" (status, "leaseExpiresAt")`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "maxAttempts" INTEGER NOT NULL DEFAULT 3`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "nextRunAt" TIMESTAMP(3)`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "lastError" TEXT`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "errorClass" TEXT`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS "errorStep" TEXT`,
+        `CREATE INDEX IF NOT EXISTS "ImportJob_status_nextRunAt_idx" ON "ImportJob" (status, "nextRunAt")`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS checkpoint JSONB`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS driver TEXT`,
+        `ALTER TABLE "ImportJob" ADD COLUMN IF NOT EXISTS scope JSONB`,
+        `CREATE OR REPLACE FUNCTION notify_import_job_pending() RETURNS trigger AS $$
+            BEGIN
+                PERFORM pg_notify('${JOB_NOTIFY_CHANNEL}', NEW.id);
+                RETURN NEW;
+            END;
+        $$ LANGUAGE plpgsql`,
+        `DROP TRIGGER IF EXISTS "ImportJob_notify_pending" ON "ImportJob"`,
+        `CREATE TRIGGER "ImportJob_notify_pending"
+            AFTER INSERT OR UPDATE OF status ON "ImportJob"
+            FOR EACH ROW WHEN (NEW.status = 'PENDING')
+            EXECUTE FUNCTION notify_import_job_pending()`,
+    ]
+};
@@ -0,0 +1,21 @@
+import { Migration } from './types';
+
+/**
+ * Sessões autenticadas do AVA (cifradas) reaproveitadas entre jobs
+ */
+export const migration: Migration = {
+    version: 3,
+    name: 'scraper_session',
+    statements: [
+        `CREATE TABLE IF NOT EXISTS "ScraperSession" (
+            "userId" TEXT NOT NULL,
+            driver TEXT NOT NULL,
+            login TEXT NOT NULL,
+            state TEXT NOT NULL,
+            "expiresAt" TIMESTAMP(3) NOT NULL,
+            "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+            "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+            PRIMARY KEY ("userId", driver)
+        )`,
+    ]
+};
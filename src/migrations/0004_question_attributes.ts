@@ -0,0 +1,26 @@
+import { Migration } from './types';
+
+/**
+ * Atributos estruturados da questão (tipo, dificuldade, objetivo, dados do título da prova)
+ * e os mesmos dados do título no histórico de raspagem
+ */
+export const migration: Migration = {
+    version: 4,
+    name: 'question_attributes',
+    statements: [
+        `ALTER TABLE "Question" ADD COLUMN IF NOT EXISTS "questionType" TEXT NOT NULL DEFAULT 'MULTIPLE_CHOICE'`,
+        `ALTER TABLE "Question" ADD COLUMN IF NOT EXISTS "expectedAnswer" TEXT`,
+        `ALTER TABLE "Question" ADD COLUMN IF NOT EXISTS difficulty TEXT`,
+        `ALTER TABLE "Question" ADD COLUMN IF NOT EXISTS "learningObjective" TEXT`,
+        `CREATE INDEX IF NOT EXISTS "Question_difficulty_idx" ON "Question" (difficulty)`,
+        `CREATE INDEX IF NOT EXISTS "Question_learningObjective_idx" ON "Question" ("learningObjective")`,
+        `ALTER TABLE "Question" ADD COLUMN IF NOT EXISTS "courseCode" TEXT`,
+        `ALTER TABLE "Question" ADD COLUMN IF NOT EXISTS "examPeriod" TEXT`,
+        `ALTER TABLE "Question" ADD COLUMN IF NOT EXISTS "assessmentType" TEXT`,
+        `ALTER TABLE "ScrapeHistory" ADD COLUMN IF NOT EXISTS "courseCode" TEXT`,
+        `ALTER TABLE "ScrapeHistory" ADD COLUMN IF NOT EXISTS "subjectName" TEXT`,
+        `ALTER TABLE "ScrapeHistory" ADD COLUMN IF NOT EXISTS "examPeriod" TEXT`,
+        `ALTER TABLE "ScrapeHistory" ADD COLUMN IF NOT EXISTS bimester INTEGER`,
+        `ALTER TABLE "ScrapeHistory" ADD COLUMN IF NOT EXISTS "assessmentType" TEXT`,
+    ]
+};
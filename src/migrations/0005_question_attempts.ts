@@ -0,0 +1,22 @@
+import { Migration } from './types';
+
+/**
+ * Resposta de cada aluno às questões raspadas (para revisar as que errou)
+ */
+export const migration: Migration = {
+    version: 5,
+    name: 'question_attempts',
+    statements: [
+        `CREATE TABLE IF NOT EXISTS "QuestionAttempt" (
+            id TEXT PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            "questionId" TEXT NOT NULL REFERENCES "Question"(id) ON DELETE CASCADE,
+            "selectedLetters" TEXT[] NOT NULL,
+            "isCorrect" BOOLEAN NOT NULL,
+            "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+            "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+            UNIQUE ("userId", "questionId")
+        )`,
+        `CREATE INDEX IF NOT EXISTS "QuestionAttempt_userId_isCorrect_idx" ON "QuestionAttempt" ("userId", "isCorrect")`,
+    ]
+};
@@ -0,0 +1,52 @@
+import { Migration } from './types';
+import { questionFingerprint } from '../utils/text';
+
+const BACKFILL_BATCH_SIZE = 500;
+
+/**
+ * Impressão digital normalizada da questão (deduplicação por índice) e o vínculo
+ * de quase-duplicatas com a questão original, para revisão.
+ */
+export const migration: Migration = {
+    version: 6,
+    name: 'question_fingerprint',
+    statements: [
+        `ALTER TABLE "Question" ADD COLUMN IF NOT EXISTS fingerprint TEXT`,
+        `ALTER TABLE "Question" ADD COLUMN IF NOT EXISTS "duplicateOfId" TEXT REFERENCES "Question"(id) ON DELETE SET NULL`,
+        `CREATE INDEX IF NOT EXISTS "Question_fingerprint_idx" ON "Question" (fingerprint)`,
+        `CREATE INDEX IF NOT EXISTS "Question_duplicateOfId_idx" ON "Question" ("duplicateOfId")`,
+    ],
+
+    // A normalização é feita em TS (utils/text), então o backfill não pode ser só SQL
+    async run(client) {
+        while (true) {
+            const { rows } = await client.query(`
+                SELECT q.id, q.text,
+                       ARRAY(SELECT a.text FROM "Alternative" a WHERE a."questionId" = q.id) AS alternatives
+                FROM "Question" q
+                WHERE q.fingerprint IS NULL
+                LIMIT $1
+            `, [BACKFILL_BATCH_SIZE]);
+            if (rows.length === 0) break;
+
+            for (const row of rows) {
+                await client.query(`UPDATE "Question" SET fingerprint = $2 WHERE id = $1`,
+                    [row.id, questionFingerprint(row.text, row.alternatives)]);
+            }
+        }
+
+        // Duplicatas já existentes: a mais antiga fica como original, as demais vão para revisão
+        await client.query(`
+            UPDATE "Question" q
+            SET "duplicateOfId" = original.id, "verificationRequested" = true
+            FROM (
+                SELECT DISTINCT ON (fingerprint) id, fingerprint
+                FROM "Question"
+                ORDER BY fingerprint, "createdAt", id
+            ) original
+            WHERE q.fingerprint = original.fingerprint
+              AND q.id <> original.id
+              AND q."duplicateOfId" IS NULL
+        `);
+    }
+};
@@ -0,0 +1,22 @@
+import { Migration } from './types';
+
+/**
+ * Gabarito visto por cada aluno numa questão já existente: confirma (agrees) ou contesta o salvo
+ */
+export const migration: Migration = {
+    version: 7,
+    name: 'answer_confirmations',
+    statements: [
+        `CREATE TABLE IF NOT EXISTS "AnswerConfirmation" (
+            id TEXT PRIMARY KEY,
+            "questionId" TEXT NOT NULL REFERENCES "Question"(id) ON DELETE CASCADE,
+            "userId" TEXT NOT NULL,
+            "correctLetters" TEXT[] NOT NULL,
+            agrees BOOLEAN NOT NULL,
+            "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+            "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+            UNIQUE ("questionId", "userId")
+        )`,
+        `CREATE INDEX IF NOT EXISTS "AnswerConfirmation_questionId_agrees_idx" ON "AnswerConfirmation" ("questionId", agrees)`,
+    ]
+};
@@ -0,0 +1,26 @@
+import { Migration } from './types';
+
+/**
+ * Origem de cada questão por aluno que a capturou: prova, ano, rótulo (Q01...) e job.
+ * Sem backfill: as questões antigas não guardavam esses dados.
+ */
+export const migration: Migration = {
+    version: 8,
+    name: 'question_provenance',
+    statements: [
+        `CREATE TABLE IF NOT EXISTS "QuestionProvenance" (
+            id TEXT PRIMARY KEY,
+            "questionId" TEXT NOT NULL REFERENCES "Question"(id) ON DELETE CASCADE,
+            "userId" TEXT NOT NULL,
+            "jobId" TEXT REFERENCES "ImportJob"(id) ON DELETE SET NULL,
+            year TEXT NOT NULL,
+            "examId" TEXT NOT NULL,
+            "examName" TEXT NOT NULL,
+            "questionLabel" TEXT NOT NULL,
+            "scrapedAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+            UNIQUE ("questionId", "userId", "examId")
+        )`,
+        `CREATE INDEX IF NOT EXISTS "QuestionProvenance_jobId_idx" ON "QuestionProvenance" ("jobId")`,
+        `CREATE INDEX IF NOT EXISTS "QuestionProvenance_examId_idx" ON "QuestionProvenance" ("examId")`,
+    ]
+};
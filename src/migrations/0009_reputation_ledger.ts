@@ -0,0 +1,38 @@
+import { Migration } from './types';
+
+/**
+ * Livro de reputação só de inserção: "User".reputation passa a ser a soma dos lançamentos.
+ * A reputação atual de cada usuário entra como saldo de abertura, para a reconciliação não zerar ninguém.
+ */
+export const migration: Migration = {
+    version: 9,
+    name: 'reputation_ledger',
+    statements: [
+        `CREATE TABLE IF NOT EXISTS "ReputationLedger" (
+            id TEXT PRIMARY KEY,
+            "userId" TEXT NOT NULL,
+            amount INTEGER NOT NULL,
+            reason TEXT NOT NULL,
+            "ruleAmount" INTEGER NOT NULL,
+            "questionId" TEXT,
+            "jobId" TEXT,
+            "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW()
+        )`,
+        `CREATE INDEX IF NOT EXISTS "ReputationLedger_userId_createdAt_idx" ON "ReputationLedger" ("userId", "createdAt")`,
+        `CREATE INDEX IF NOT EXISTS "ReputationLedger_jobId_idx" ON "ReputationLedger" ("jobId")`,
+        `CREATE OR REPLACE FUNCTION reputation_ledger_append_only() RETURNS trigger AS $$
+            BEGIN
+                RAISE EXCEPTION 'ReputationLedger é só de inserção';
+            END;
+        $$ LANGUAGE plpgsql`,
+        `DROP TRIGGER IF EXISTS "ReputationLedger_append_only" ON "ReputationLedger"`,
+        `CREATE TRIGGER "ReputationLedger_append_only"
+            BEFORE UPDATE OR DELETE ON "ReputationLedger"
+            FOR EACH ROW EXECUTE FUNCTION reputation_ledger_append_only()`,
+        `INSERT INTO "ReputationLedger" (id, "userId", amount, reason, "ruleAmount", "createdAt")
+            SELECT 'opening-' || u.id, u.id, u.reputation, 'OPENING_BALANCE', u.reputation, NOW()
+            FROM "User" u
+            WHERE u.reputation <> 0
+            ON CONFLICT (id) DO NOTHING`,
+    ]
+};
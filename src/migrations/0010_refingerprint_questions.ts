@@ -0,0 +1,58 @@
+import { Migration } from './types';
+import { questionFingerprint } from '../utils/text';
+
+const BATCH_SIZE = 500;
+
+/**
+ * Recalcula as impressões digitais com a normalização que preserva símbolos (5 - 3 e 5 * 3
+ * deixaram de colidir) e refaz os vínculos de quase-duplicata a partir delas.
+ */
+export const migration: Migration = {
+    version: 10,
+    name: 'refingerprint_questions',
+    statements: [],
+
+    async run(client) {
+        let lastId = '';
+        while (true) {
+            const { rows } = await client.query(`
+                SELECT q.id, q.text,
+                       ARRAY(SELECT a.text FROM "Alternative" a WHERE a."questionId" = q.id) AS alternatives
+                FROM "Question" q
+                WHERE q.id > $1
+                ORDER BY q.id
+                LIMIT $2
+            `, [lastId, BATCH_SIZE]);
+            if (rows.length === 0) break;
+
+            for (const row of rows) {
+                await client.query(`UPDATE "Question" SET fingerprint = $2 WHERE id = $1`,
+                    [row.id, questionFingerprint(row.text, row.alternatives)]);
+            }
+            lastId = rows[rows.length - 1].id;
+        }
+
+        // Vínculos que só existiam pela colisão da normalização antiga
+        await client.query(`
+            UPDATE "Question" q
+            SET "duplicateOfId" = NULL
+            FROM "Question" original
+            WHERE q."duplicateOfId" = original.id
+              AND q.fingerprint IS DISTINCT FROM original.fingerprint
+        `);
+
+        // Duplicatas que a normalização antiga não via (mesma regra da migração 6)
+        await client.query(`
+            UPDATE "Question" q
+            SET "duplicateOfId" = original.id, "verificationRequested" = true
+            FROM (
+                SELECT DISTINCT ON (fingerprint) id, fingerprint
+                FROM "Question"
+                ORDER BY fingerprint, "createdAt", id
+            ) original
+            WHERE q.fingerprint = original.fingerprint
+              AND q.id <> original.id
+              AND q."duplicateOfId" IS NULL
+        `);
+    }
+};
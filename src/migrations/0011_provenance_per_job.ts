@@ -0,0 +1,15 @@
+import { Migration } from './types';
+
+/**
+ * Uma origem por job: recapturar a mesma prova cria outra linha em vez de sobrescrever
+ * o job anterior, que continua listando as questões que gravou.
+ */
+export const migration: Migration = {
+    version: 11,
+    name: 'provenance_per_job',
+    statements: [
+        `ALTER TABLE "QuestionProvenance" DROP CONSTRAINT IF EXISTS "QuestionProvenance_questionId_userId_examId_key"`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS "QuestionProvenance_questionId_userId_examId_jobId_key"
+            ON "QuestionProvenance" ("questionId", "userId", "examId", "jobId")`,
+    ]
+};
@@ -0,0 +1,29 @@
+import { Migration } from './types';
+import { migration as baseTables } from './0001_base_tables';
+import { migration as importJobControl } from './0002_import_job_control';
+import { migration as scraperSession } from './0003_scraper_session';
+import { migration as questionAttributes } from './0004_question_attributes';
+import { migration as questionAttempts } from './0005_question_attempts';
+import { migration as questionFingerprint } from './0006_question_fingerprint';
+import { migration as answerConfirmations } from './0007_answer_confirmations';
+import { migration as questionProvenance } from './0008_question_provenance';
+import { migration as reputationLedger } from './0009_reputation_ledger';
+import { migration as refingerprintQuestions } from './0010_refingerprint_questions';
+import { migration as provenancePerJob } from './0011_provenance_per_job';
+
+export * from './types';
+
+// Em ordem de versão; nunca altere uma migração já publicada, crie outra
+export const MIGRATIONS: Migration[] = [
+    baseTables,
+    importJobControl,
+    scraperSession,
+    questionAttributes,
+    questionAttempts,
+    questionFingerprint,
+    answerConfirmations,
+    questionProvenance,
+    reputationLedger,
+    refingerprintQuestions,
+    provenancePerJob,
+];
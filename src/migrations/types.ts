@@ -0,0 +1,14 @@
+import { ClientBase } from 'pg';
+
+/**
+ * Migração versionada: os comandos rodam numa transação e a versão fica
+ * registrada em "SchemaMigration". Os comandos usam IF NOT EXISTS porque o banco
+ * de produção é compartilhado com o projeto principal, que já criou parte das tabelas.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    statements: string[];
+    // Ajuste de dados que não cabe em SQL puro (roda depois dos comandos, na mesma transação)
+    run?: (client: ClientBase) => Promise<void>;
+}
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import { z } from 'zod';
+
+const alternativeSchema = z.object({
+    letter: z.string().regex(/^[A-Z]$/),
+    html: z.string()
+});
+
+const questionSchema = z.object({
+    statementHtml: z.string(),
+    alternatives: z.array(alternativeSchema).default([]),
+    // Várias letras = questão de múltipla seleção
+    correct: z.union([z.string(), z.array(z.string())]).nullable().default(null),
+    // Alternativa marcada pelo aluno (null = marcou a correta)
+    selected: z.string().nullable().default(null),
+    justificationHtml: z.string().nullable().default(null),
+    // Questões discursivas (sem alternativas)
+    expectedAnswerHtml: z.string().nullable().default(null),
+    semana: z.string().nullable().default(null),
+    dificuldade: z.string().nullable().default(null),
+    objetivo: z.string().nullable().default(null),
+    images: z.array(z.string()).default([])
+});
+
+const examSchema = z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    questions: z.array(questionSchema)
+});
+
+const yearSchema = z.object({
+    label: z.string().min(1),
+    exams: z.array(examSchema)
+});
+
+const userSchema = z.object({
+    login: z.string().min(1),
+    password: z.string().min(1)
+});
+
+export const failuresSchema = z.object({
+    // Atraso na resposta do login (ms)
+    slowLoginMs: z.number().int().min(0).default(0),
+    // O botão "Sistema de Provas" não abre a nova aba
+    popupNeverOpens: z.boolean().default(false),
+    // O select de ano volta para o valor anterior ao ser alterado
+    yearSelectStuck: z.boolean().default(false)
+});
+
+export const mockAvaConfigSchema = z.object({
+    users: z.array(userSchema).min(1),
+    years: z.array(yearSchema),
+    failures: failuresSchema.default({ slowLoginMs: 0, popupNeverOpens: false, yearSelectStuck: false })
+});
+
+export type MockAvaConfig = z.infer<typeof mockAvaConfigSchema>;
+export type MockAvaFailures = z.infer<typeof failuresSchema>;
+export type MockQuestion = z.infer<typeof questionSchema>;
+
+const defaultAlternatives = (values: string[]) =>
+    values.map((html, i) => ({ letter: String.fromCharCode(65 + i), html }));
+
+export const DEFAULT_MOCK_AVA_CONFIG: MockAvaConfig = {
+    users: [
+        { login: 'aluno', password: 'senha123' },
+        { login: 'aluno@aluno.univesp.br', password: 'senha123' }
+    ],
+    years: [
+        {
+            label: '2024',
+            exams: [
+                {
+                    id: '9001',
+                    name: '2024 - MATE100 - Matemática Básica - 1º Bimestre - Prova',
+                    questions: [
+                        {
+                            statementHtml: '<p>Quanto é <strong>2 + 2</strong>?</p>',
+                            alternatives: defaultAlternatives(['3', '4', '5', '22', '0']),
+                            correct: 'B',
+                            selected: 'C',
+                            justificationHtml: '<p>A soma de dois com dois resulta em quatro.</p>',
+                            expectedAnswerHtml: null,
+                            semana: '2',
+                            dificuldade: 'Fácil',
+                            objetivo: 'Operações com números naturais',
+                            images: []
+                        },
+                        {
+                            statementHtml: '<p>Observe a figura e indique a área do quadrado de lado 3.</p>',
+                            alternatives: defaultAlternatives(['6', '9', '12', '3', '1']),
+                            correct: 'B',
+                            selected: null,
+                            justificationHtml: null,
+                            expectedAnswerHtml: null,
+                            semana: '4',
+                            dificuldade: 'Médio',
+                            objetivo: 'Cálculo de áreas',
+                            images: ['/assets/quadrado.png']
+                        },
+                        {
+                            statementHtml: '<p>Explique por que a soma de dois números pares é sempre par.</p>',
+                            alternatives: [],
+                            correct: null,
+                            selected: null,
+                            justificationHtml: null,
+                            expectedAnswerHtml: '<p>Pares são da forma <em>2a</em> e <em>2b</em>; a soma <em>2(a + b)</em> também é par.</p>',
+                            semana: '5',
+                            dificuldade: 'Médio',
+                            objetivo: 'Paridade',
+                            images: []
+                        }
+                    ]
+                }
+            ]
+        },
+        {
+            label: '2023',
+            exams: []
+        }
+    ],
+    failures: { slowLoginMs: 0, popupNeverOpens: false, yearSelectStuck: false }
+};
+
+/**
+ * Carrega a configuração do mock: arquivo JSON em MOCK_AVA_CONFIG ou a configuração padrão
+ */
+export function loadMockAvaConfig(path = process.env.MOCK_AVA_CONFIG): MockAvaConfig {
+    if (!path) return structuredClone(DEFAULT_MOCK_AVA_CONFIG);
+    const raw = JSON.parse(fs.readFileSync(path, 'utf8'));
+    return mockAvaConfigSchema.parse(raw);
+}
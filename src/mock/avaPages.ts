@@ -0,0 +1,163 @@
+import { MockAvaConfig, MockQuestion } from './avaConfig';
+
+/**
+ * Templates HTML do mock, reproduzindo apenas a estrutura que os drivers usam no SEI/AVA real.
+ */
+
+export const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const layout = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body>
+${body}
+</body>
+</html>`;
+
+export function loginPage(error?: string) {
+    return layout('SEI - Login', `
+<form id="form" method="post" action="/login">
+    ${error ? `<div class="alert alert-danger">${escapeHtml(error)}</div>` : ''}
+    <label for="form:usuario">Usuário</label>
+    <input type="text" id="form:usuario" name="usuario">
+    <label for="form:email">E-mail</label>
+    <input type="text" id="form:email" name="email">
+    <label for="form:senha">Senha</label>
+    <input type="password" id="form:senha" name="senha">
+    <button type="submit" id="form:loginBtn:loginBtn">Entrar</button>
+</form>`);
+}
+
+export function passwordPage(login: string, error?: string) {
+    return layout('Entrar', `
+<form method="post" action="/sso/senha">
+    ${error ? `<div class="alert alert-danger">${escapeHtml(error)}</div>` : ''}
+    <input type="hidden" name="login" value="${escapeHtml(login)}">
+    <input type="password" id="password" name="password">
+    <button type="submit">Entrar</button>
+</form>`);
+}
+
+export function homePage(popupNeverOpens: boolean) {
+    const onclick = popupNeverOpens ? 'return false;' : `window.open('/provas/index', '_blank'); return false;`;
+    return layout('SEI - Visão Aluno', `
+<form id="form">
+    <a id="form:j_idt577:botaoAcessoSistemaProvasMestreGR" href="#" onclick="${onclick}">
+        <span class="tituloCampos">Sistema de Provas</span>
+    </a>
+</form>`);
+}
+
+export function examSystemPage() {
+    return layout('Sistema de Provas', `
+<ul class="menu">
+    <li onmouseenter="document.getElementById('submenu').style.display='block'">
+        <span>Resultados</span>
+        <ul id="submenu" style="display:none">
+            <li><a href="/provas/avaliacoes">Avaliações</a></li>
+        </ul>
+    </li>
+</ul>`);
+}
+
+const yearOptionValue = (label: string) => `/provas/avaliacoes?ano=${encodeURIComponent(label)}`;
+
+function questionSection(question: MockQuestion) {
+    const images = question.images.map(src => `<img src="${escapeHtml(src)}">`).join('');
+
+    const correct = Array.isArray(question.correct) ? question.correct : [question.correct];
+    const alternatives = question.alternatives.map(alt => {
+        const isCorrect = correct.includes(alt.letter);
+        const isWrongSelection = question.selected !== null && alt.letter === question.selected && !isCorrect;
+
+        if (isCorrect) {
+            return `<div><span style="color:#00a000">${alt.letter}) ${alt.html} CORRETA</span></div>`;
+        }
+        if (isWrongSelection) {
+            return `<div><span style="color:#ff0000">${alt.letter}) ${alt.html} Você marcou a alternativa ERRADA</span></div>`;
+        }
+        return `<div><span>${alt.letter}) ${alt.html}</span></div>`;
+    }).join('\n');
+
+    const expectedAnswer = question.expectedAnswerHtml !== null
+        ? `<div>Resposta esperada: ${question.expectedAnswerHtml}</div>`
+        : '';
+
+    const meta = [
+        question.semana !== null || question.dificuldade !== null
+            ? `<div>Semana: ${escapeHtml(question.semana || '')} / Nível de Dificuldade: ${escapeHtml(question.dificuldade || '')}</div>`
+            : '',
+        question.objetivo !== null ? `<div>Objetivo de Aprendizado: ${escapeHtml(question.objetivo)}</div>` : ''
+    ].join('\n');
+
+    const justification = question.justificationHtml !== null
+        ? `<blockquote><p>Justificativa sobre todas as alternativas (corretas e incorretas)</p>${question.justificationHtml}</blockquote>`
+        : '';
+
+    return `
+<div class="row">
+    <div class="col-md-7 resposta"><div>${question.statementHtml}${images}</div></div>
+    <div class="col-md-5">
+${alternatives}
+${expectedAnswer}
+${meta}
+    </div>
+</div>
+${justification}`;
+}
+
+export function evaluationsPage(config: MockAvaConfig, params: { year?: string; exam?: string; question?: number }) {
+    const year = config.years.find(y => y.label === params.year);
+    const exam = year?.exams.find(e => e.id === params.exam);
+    const question = exam && params.question ? exam.questions[params.question - 1] : undefined;
+
+    const yearOnChange = config.failures.yearSelectStuck
+        ? `this.value = this.getAttribute('data-current');`
+        : `location.href = this.value;`;
+
+    const yearOptions = [
+        `<option value="">SELECIONE ANO</option>`,
+        ...config.years.map(y => {
+            const value = yearOptionValue(y.label);
+            return `<option value="${escapeHtml(value)}"${y === year ? ' selected' : ''}>${escapeHtml(y.label)}</option>`;
+        })
+    ].join('');
+
+    const examOptions = year && year.exams.length > 0
+        ? [
+            `<option value="">Selecione a prova</option>`,
+            ...year.exams.map(e => `<option value="${escapeHtml(e.id)}"${e === exam ? ' selected' : ''}>${escapeHtml(e.name)}</option>`)
+        ].join('')
+        : `<option value="">Nenhum registro encontrado</option>`;
+
+    const examBase = year ? `${yearOptionValue(year.label)}&prova=` : '';
+    const questionButtons = exam
+        ? exam.questions.map((_, i) => {
+            const label = `Q${String(i + 1).padStart(2, '0')}`;
+            return `<button type="button" onclick="location.href='${examBase}${encodeURIComponent(exam.id)}&q=${i + 1}'">${label}</button>`;
+        }).join('\n')
+        : '';
+
+    return layout('Avaliações', `
+<div class="row">
+    <div><h4>Ano letivo:</h4></div>
+    <div>
+        <select data-current="${year ? escapeHtml(yearOptionValue(year.label)) : ''}" onchange="${yearOnChange}">${yearOptions}</select>
+    </div>
+</div>
+<div class="row">
+    <div><h4>Prova:</h4></div>
+    <div>
+        <select name="PROVA" onchange="location.href='${examBase}' + encodeURIComponent(this.value)">${examOptions}</select>
+    </div>
+</div>
+<div class="questoes">
+${questionButtons}
+</div>
+${question ? questionSection(question) : ''}`);
+}
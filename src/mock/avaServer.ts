@@ -0,0 +1,131 @@
+import express from 'express';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { failuresSchema, loadMockAvaConfig, MockAvaConfig } from './avaConfig';
+import { evaluationsPage, examSystemPage, homePage, loginPage, passwordPage } from './avaPages';
+
+/**
+ * Servidor local que imita o SEI/AVA (login, Sistema de Provas, Resultados > Avaliações)
+ * para rodar o fluxo real do scraper sem acessar sei.univesp.br.
+ *
+ * Uso: npm run mock:ava  e  TARGET_URL=http://localhost:4010/index.xhtml
+ * Falhas podem ser injetadas no JSON de configuração ou em tempo de execução
+ * via POST /__mock/failures.
+ */
+
+const SESSION_COOKIE = 'MOCKSESSIONID';
+
+// 1x1 PNG transparente servido para qualquer imagem de questão
+const PLACEHOLDER_PNG = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+    'base64'
+);
+
+const isEmail = (value: string) => z.string().email().safeParse(value).success;
+
+const readSession = (req: express.Request, sessions: Map<string, string>) => {
+    const cookies = (req.headers.cookie || '').split(';').map(c => c.trim().split('='));
+    const token = cookies.find(([name]) => name === SESSION_COOKIE)?.[1];
+    return token ? sessions.get(token) || null : null;
+};
+
+export function createMockAvaApp(config: MockAvaConfig) {
+    const app = express();
+    const sessions = new Map<string, string>();
+
+    app.use(express.urlencoded({ extended: false }));
+    app.use(express.json());
+
+    const startSession = (res: express.Response, login: string) => {
+        const token = crypto.randomUUID();
+        sessions.set(token, login);
+        res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${token}; Path=/; HttpOnly`);
+        res.redirect(303, '/visaoAluno.xhtml');
+    };
+
+    const requireSession: express.RequestHandler = (req, res, next) => {
+        if (!readSession(req, sessions)) return res.redirect(303, '/index.xhtml');
+        next();
+    };
+
+    const checkPassword = (login: string, password: string) =>
+        config.users.some(u => u.login === login && u.password === password);
+
+    app.get(['/', '/index.xhtml'], (req, res) => {
+        res.send(loginPage());
+    });
+
+    app.post('/login', async (req, res) => {
+        if (config.failures.slowLoginMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, config.failures.slowLoginMs));
+        }
+
+        const email = (req.body.email || '').trim();
+        const login = email || (req.body.usuario || '').trim();
+
+        // Usuários de e-mail confirmam a senha numa segunda tela
+        if (isEmail(login)) {
+            return res.send(passwordPage(login));
+        }
+
+        if (!checkPassword(login, req.body.senha || '')) {
+            return res.send(loginPage('Usuário ou senha inválidos.'));
+        }
+        startSession(res, login);
+    });
+
+    app.post('/sso/senha', (req, res) => {
+        const login = req.body.login || '';
+        if (!checkPassword(login, req.body.password || '')) {
+            return res.send(passwordPage(login, 'Senha incorreta.'));
+        }
+        startSession(res, login);
+    });
+
+    app.get('/visaoAluno.xhtml', requireSession, (req, res) => {
+        res.send(homePage(config.failures.popupNeverOpens));
+    });
+
+    app.get('/provas/index', requireSession, (req, res) => {
+        res.send(examSystemPage());
+    });
+
+    app.get('/provas/avaliacoes', requireSession, (req, res) => {
+        const question = Number(req.query.q);
+        res.send(evaluationsPage(config, {
+            year: typeof req.query.ano === 'string' ? req.query.ano : undefined,
+            exam: typeof req.query.prova === 'string' ? req.query.prova : undefined,
+            question: Number.isInteger(question) && question > 0 ? question : undefined
+        }));
+    });
+
+    app.get('/assets/:name', (req, res) => {
+        res.type('png').send(PLACEHOLDER_PNG);
+    });
+
+    // Controle do mock em tempo de execução
+    app.get('/__mock/config', (req, res) => {
+        res.json(config);
+    });
+
+    app.post('/__mock/failures', (req, res) => {
+        const parsed = failuresSchema.partial().safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: 'Invalid failures', details: z.flattenError(parsed.error).fieldErrors });
+        }
+        Object.assign(config.failures, parsed.data);
+        res.json(config.failures);
+    });
+
+    return app;
+}
+
+if (require.main === module) {
+    const port = Number(process.env.MOCK_AVA_PORT) || 4010;
+    const config = loadMockAvaConfig();
+
+    createMockAvaApp(config).listen(port, () => {
+        console.log(`[MockAVA] Listening on http://localhost:${port}/index.xhtml`);
+        console.log(`[MockAVA] Users: ${config.users.map(u => u.login).join(', ')}`);
+    });
+}
@@ -0,0 +1,98 @@
+/**
+ * Parser do rótulo da prova no select do Sistema de Provas,
+ * ex: "2024 - MATE100 - Matemática Básica - 1º Bimestre - Prova".
+ * A ordem dos segmentos varia entre anos, então cada segmento é classificado pelo formato.
+ */
+
+export type AssessmentType = 'PROVA' | 'EXAME' | 'RECUPERACAO';
+
+export const ASSESSMENT_TYPES: AssessmentType[] = ['PROVA', 'EXAME', 'RECUPERACAO'];
+
+export interface ExamTitle {
+    raw: string;
+    year: string | null;
+    courseCode: string | null;      // Ex: MATE100
+    subjectName: string | null;     // Ex: Matemática Básica
+    period: string | null;          // Ex: 1º Bimestre
+    bimester: number | null;
+    assessmentType: AssessmentType | null;
+    // O que não foi possível identificar (vazio = rótulo completo)
+    warnings: string[];
+}
+
+const YEAR = /^(?:19|20)\d{2}(?:[./]\d)?$/;
+const COURSE_CODE = /^[A-Z]{2,6}\d{2,4}[A-Z]?$/;
+const COURSE_CODE_PREFIX = /^([A-Z]{2,6}\d{2,4}[A-Z]?)\s+(.+)$/;
+const PERIOD = /(\d+)\s*[ºo°ª]?\s*(bimestre|semestre|trimestre|quadrimestre|per[ií]odo)/i;
+
+const ASSESSMENT_PATTERNS: [RegExp, AssessmentType][] = [
+    [/recupera[cç][aã]o/i, 'RECUPERACAO'],
+    [/\bexame\b/i, 'EXAME'],
+    [/\bprova\b/i, 'PROVA']
+];
+
+const detectAssessmentType = (segment: string): AssessmentType | null =>
+    ASSESSMENT_PATTERNS.find(([pattern]) => pattern.test(segment))?.[1] || null;
+
+export function parseExamTitle(label: string): ExamTitle {
+    const raw = label.trim();
+    const result: ExamTitle = {
+        raw,
+        year: null,
+        courseCode: null,
+        subjectName: null,
+        period: null,
+        bimester: null,
+        assessmentType: null,
+        warnings: []
+    };
+
+    const segments = raw.split(/\s+[-–—]\s+/).map(s => s.trim()).filter(s => s !== '');
+    const rest: string[] = [];
+
+    for (const segment of segments) {
+        if (!result.year && YEAR.test(segment)) {
+            result.year = segment;
+            continue;
+        }
+
+        if (!result.courseCode && COURSE_CODE.test(segment)) {
+            result.courseCode = segment;
+            continue;
+        }
+
+        // "MATE100 Matemática Básica" num só segmento
+        const prefixed = !result.courseCode ? segment.match(COURSE_CODE_PREFIX) : null;
+        if (prefixed) {
+            result.courseCode = prefixed[1];
+            rest.push(prefixed[2]);
+            continue;
+        }
+
+        const period = segment.match(PERIOD);
+        if (!result.period && period) {
+            result.period = period[0].trim();
+            if (/bimestre/i.test(period[2])) result.bimester = Number(period[1]);
+            // "1º Bimestre - Prova" às vezes vem no mesmo segmento
+            result.assessmentType = result.assessmentType || detectAssessmentType(segment.replace(period[0], ''));
+            continue;
+        }
+
+        const assessmentType = detectAssessmentType(segment);
+        if (!result.assessmentType && assessmentType && segment.split(/\s+/).length <= 3) {
+            result.assessmentType = assessmentType;
+            continue;
+        }
+
+        rest.push(segment);
+    }
+
+    // O nome da disciplina é o maior segmento que sobrou
+    result.subjectName = rest.sort((a, b) => b.length - a.length)[0] || null;
+
+    if (!result.subjectName) result.warnings.push('disciplina');
+    if (!result.courseCode) result.warnings.push('código da disciplina');
+    if (!result.assessmentType) result.warnings.push('tipo de avaliação');
+
+    return result;
+}
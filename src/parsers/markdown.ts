@@ -0,0 +1,188 @@
+import { parse, HTMLElement, Node, NodeType } from 'node-html-parser';
+
+/**
+ * Conversão do HTML das questões para Markdown, mantendo tabelas, listas,
+ * ênfase, código e fórmulas (MathML e imagens LaTeX viram $...$).
+ * Imagens comuns ficam de fora: são baixadas à parte e anexadas ao corpo.
+ */
+
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'dd', 'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure',
+    'footer', 'form', 'header', 'main', 'nav', 'p', 'section', 'center'
+]);
+const IGNORED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'button', 'input', 'select']);
+const FORMULA_IMAGE = /latex|mathtex|wiris|formula|codecogs|tex\?/i;
+
+const toRoot = (html: string | HTMLElement) => typeof html === 'string' ? parse(html) : html;
+
+const tagOf = (node: Node) => (node as HTMLElement).rawTagName?.toLowerCase() || '';
+
+/**
+ * Junta pedaços sem duplicar espaços nas emendas (texto colapsado começa/termina com ' ')
+ */
+const appendPart = (acc: string, part: string) => {
+    if (acc === '' || /\s$/.test(acc)) part = part.replace(/^ +/, '');
+    return acc + part;
+};
+
+const block = (content: string) => {
+    const trimmed = content.trim();
+    return trimmed ? `\n\n${trimmed}\n\n` : '';
+};
+
+/**
+ * Envolve o texto com o marcador, deixando os espaços das pontas do lado de fora
+ */
+const wrapInline = (content: string, marker: string) => {
+    const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    if (!match[2]) return content;
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+};
+
+const indent = (content: string, prefix: string) =>
+    content.split('\n').map((line, i) => i === 0 || line === '' ? line : prefix + line).join('\n');
+
+function renderChildren(el: HTMLElement): string {
+    return el.childNodes.reduce((acc, child) => appendPart(acc, render(child)), '');
+}
+
+function renderInline(el: HTMLElement): string {
+    return renderChildren(el).replace(/\s*\n+\s*/g, ' ');
+}
+
+function renderMath(el: HTMLElement): string {
+    const tex = el.querySelector('annotation[encoding="application/x-tex"]')?.text.trim()
+        || el.getAttribute('alttext')?.trim()
+        || el.text.replace(/\s+/g, ' ').trim();
+    if (!tex) return '';
+    return el.getAttribute('display') === 'block' ? block(`$$${tex}$$`) : `$${tex}$`;
+}
+
+function renderImage(el: HTMLElement): string {
+    const src = el.getAttribute('src') || '';
+    const cls = el.getAttribute('class') || '';
+    const tex = el.getAttribute('data-latex') || el.getAttribute('alt') || '';
+    if ((FORMULA_IMAGE.test(src) || FORMULA_IMAGE.test(cls) || el.hasAttribute('data-latex')) && tex.trim()) {
+        return `$${tex.trim()}$`;
+    }
+    return '';
+}
+
+function renderList(el: HTMLElement, ordered: boolean): string {
+    const start = Number(el.getAttribute('start')) || 1;
+    const items = el.childNodes.filter(c => tagOf(c) === 'li') as HTMLElement[];
+
+    const lines = items.map((li, i) => {
+        const marker = ordered ? `${start + i}. ` : '- ';
+        const content = renderChildren(li).trim().replace(/\n{3,}/g, '\n\n');
+        return marker + indent(content, ' '.repeat(marker.length));
+    });
+
+    return lines.length > 0 ? `\n\n${lines.join('\n')}\n\n` : '';
+}
+
+function renderTable(el: HTMLElement): string {
+    // Linhas da própria tabela (ignora tabelas aninhadas)
+    const rows: HTMLElement[] = [];
+    const collect = (node: HTMLElement) => {
+        node.childNodes.forEach(child => {
+            const tag = tagOf(child);
+            if (tag === 'tr') rows.push(child as HTMLElement);
+            else if (['thead', 'tbody', 'tfoot'].includes(tag)) collect(child as HTMLElement);
+        });
+    };
+    collect(el);
+
+    const cells = rows
+        .map(row => (row.childNodes.filter(c => ['td', 'th'].includes(tagOf(c))) as HTMLElement[])
+            .map(cell => renderInline(cell).trim().replace(/\|/g, '\\|')))
+        .filter(row => row.length > 0);
+    if (cells.length === 0) return '';
+
+    const width = Math.max(...cells.map(row => row.length));
+    const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => row[i] || '').join(' | ')} |`;
+
+    const [header, ...body] = cells;
+    const separator = `| ${Array(width).fill('---').join(' | ')} |`;
+    return `\n\n${[line(header), separator, ...body.map(line)].join('\n')}\n\n`;
+}
+
+function render(node: Node): string {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+        return node.text.replace(/\s+/g, ' ');
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return '';
+
+    const el = node as HTMLElement;
+    const tag = tagOf(el);
+
+    if (IGNORED_TAGS.has(tag)) return '';
+
+    switch (tag) {
+        case 'br':
+            return '\n';
+        case 'hr':
+            return '\n\n---\n\n';
+        case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+            return block(`${'#'.repeat(Number(tag[1]))} ${renderInline(el).trim()}`);
+        case 'strong': case 'b':
+            return wrapInline(renderChildren(el), '**');
+        case 'em': case 'i':
+            return wrapInline(renderChildren(el), '*');
+        case 's': case 'del': case 'strike':
+            return wrapInline(renderChildren(el), '~~');
+        case 'sup': case 'sub': {
+            const content = renderInline(el).trim();
+            return content ? `<${tag}>${content}</${tag}>` : '';
+        }
+        case 'code': {
+            const content = el.text;
+            if (!content.trim()) return '';
+            const fence = content.includes('`') ? '``' : '`';
+            return `${fence}${content}${fence}`;
+        }
+        case 'pre': {
+            // O parser guarda o conteúdo de <pre> cru: reparseia para tirar o <code> interno
+            const content = parse(el.innerHTML).text.replace(/^\n+|\s+$/g, '');
+            return content ? `\n\n\`\`\`\n${content}\n\`\`\`\n\n` : '';
+        }
+        case 'a': {
+            const content = renderChildren(el);
+            const href = el.getAttribute('href');
+            if (!href || href.startsWith('javascript:') || href.startsWith('#') || !content.trim()) return content;
+            return `[${content.trim()}](${href})`;
+        }
+        case 'img':
+            return renderImage(el);
+        case 'math':
+            return renderMath(el);
+        case 'ul':
+            return renderList(el, false);
+        case 'ol':
+            return renderList(el, true);
+        case 'table':
+            return renderTable(el);
+        case 'blockquote': {
+            const content = renderChildren(el).trim().replace(/\n{3,}/g, '\n\n');
+            return content ? block(content.split('\n').map(line => line ? `> ${line}` : '>').join('\n')) : '';
+        }
+        case 'td': case 'th':
+            return ` ${renderChildren(el)} `;
+        case 'tr': case 'li':
+            return block(renderChildren(el));
+    }
+
+    const content = renderChildren(el);
+    return BLOCK_TAGS.has(tag) ? block(content) : content;
+}
+
+export function htmlToMarkdown(html: string | HTMLElement): string {
+    const markdown = render(toRoot(html));
+
+    return markdown
+        .split('\n')
+        .map(line => line.replace(/[ \t]+$/, ''))
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
@@ -0,0 +1,280 @@
+import { parse, HTMLElement, Node, NodeType } from 'node-html-parser';
+import { htmlToMarkdown } from './markdown';
+import { QuestionType } from '../types/question';
+import { LayoutChangedError } from '../utils/errors';
+
+/**
+ * Parsers puros da página de resultado de uma questão do Sistema de Provas.
+ * Recebem o HTML salvo (page.content() / getPageSource()) e não dependem de navegador,
+ * então os dois drivers usam a mesma lógica e ela pode rodar offline.
+ */
+
+export interface ParsedAlternative {
+    letter: string;
+    content: string; // Markdown
+    isCorrect: boolean;
+    isSelected: boolean;
+}
+
+export interface QuestionMetadata {
+    semana: string | null;
+    dificuldade: string | null;
+    objetivo: string | null;
+}
+
+export interface ParsedQuestion {
+    type: QuestionType;
+    statement: string;              // Markdown
+    justification: string | null;   // Markdown
+    expectedAnswer: string | null;  // Markdown, só para discursivas
+    alternatives: ParsedAlternative[];
+    metadata: QuestionMetadata;
+    images: string[];
+}
+
+// Seletores CSS da página da questão (sobrescritos pelo perfil de seletores)
+export interface QuestionPageSelectors {
+    statement: string;
+    alternatives: string;
+    justification: string;
+    images: string;
+}
+
+export const DEFAULT_QUESTION_SELECTORS: QuestionPageSelectors = {
+    statement: '.col-md-7.resposta > div',
+    alternatives: '.col-md-5',
+    justification: 'blockquote',
+    images: '.resposta img'
+};
+
+const JUSTIFICATION_HEADER = 'Justificativa sobre todas as alternativas (corretas e incorretas)';
+
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'dd', 'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure',
+    'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p',
+    'pre', 'section', 'table', 'tbody', 'thead', 'tfoot', 'tr', 'ul'
+]);
+const IGNORED_TAGS = new Set(['script', 'style', 'noscript', 'template']);
+
+const cleanText = (t: string) => t.replace(/\s+/g, ' ').trim();
+
+const cleanMarkdown = (md: string) => md.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+const toRoot = (html: string | HTMLElement) => typeof html === 'string' ? parse(html) : html;
+
+/**
+ * Aproximação do innerText do navegador: quebras de linha entre blocos e <br>,
+ * espaços colapsados dentro de cada linha.
+ */
+export function htmlToText(html: string | HTMLElement): string {
+    const parts: string[] = [];
+
+    const walk = (node: Node) => {
+        if (node.nodeType === NodeType.TEXT_NODE) {
+            parts.push(node.text.replace(/\s+/g, ' '));
+            return;
+        }
+        if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+        const tag = (node as HTMLElement).rawTagName?.toLowerCase() || '';
+        if (IGNORED_TAGS.has(tag)) return;
+        if (tag === 'br') {
+            parts.push('\n');
+            return;
+        }
+        if (tag === 'td' || tag === 'th') parts.push('\t');
+
+        const isBlock = BLOCK_TAGS.has(tag);
+        if (isBlock) parts.push('\n');
+        node.childNodes.forEach(walk);
+        if (isBlock) parts.push('\n');
+    };
+
+    walk(toRoot(html));
+
+    return parts.join('')
+        .split('\n')
+        .map(line => line.replace(/[ \t]+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Enunciado da questão em Markdown (primeiro bloco da coluna de resposta)
+ */
+export function parseStatement(html: string | HTMLElement, selector = DEFAULT_QUESTION_SELECTORS.statement): string {
+    const el = toRoot(html).querySelector(selector);
+    return el ? htmlToMarkdown(el) : '';
+}
+
+/**
+ * Gabarito comentado em Markdown, sem o cabeçalho padrão. Null quando a prova não traz justificativa.
+ */
+export function parseJustification(html: string | HTMLElement, selector = DEFAULT_QUESTION_SELECTORS.justification): string | null {
+    const el = toRoot(html).querySelector(selector);
+    if (!el) return null;
+
+    // Converte o conteúdo, não o <blockquote> em si (não queremos "> " em cada linha)
+    const text = cleanMarkdown(htmlToMarkdown(el.innerHTML).replace(JUSTIFICATION_HEADER, ''));
+    return text || null;
+}
+
+const EMPTY_META: QuestionMetadata = { semana: null, dificuldade: null, objetivo: null };
+
+// Rótulos que o AVA usa antes da resposta esperada de questões discursivas
+const EXPECTED_ANSWER_LABEL = /(?:Resposta esperada|Padrão de resposta|Resposta padrão|Gabarito)\s*:?/i;
+const TRUE_FALSE_VALUES = [['verdadeiro', 'falso'], ['v', 'f'], ['certo', 'errado'], ['true', 'false']];
+
+/**
+ * Posição dos rótulos "A)", "B)", ... em sequência. Exigir a ordem evita confundir
+ * "I)" ou "x)" do meio do texto com uma alternativa.
+ */
+function findOptionLabels(text: string): { letter: string; start: number; end: number }[] {
+    const labels: { letter: string; start: number; end: number }[] = [];
+    const labelRegex = /(^|\s)([A-Z])\)\s/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = labelRegex.exec(text)) !== null) {
+        const expected = String.fromCharCode('A'.charCodeAt(0) + labels.length);
+        if (match[2] !== expected) continue;
+        const start = match.index + match[1].length;
+        labels.push({ letter: match[2], start, end: start + 3 });
+        labelRegex.lastIndex = start + 2;
+    }
+
+    return labels;
+}
+
+/**
+ * Alternativas (corretas e marcadas pelo aluno), resposta esperada das discursivas
+ * e metadados da coluna lateral
+ */
+export function parseAlternatives(html: string | HTMLElement, selector = DEFAULT_QUESTION_SELECTORS.alternatives): { alternatives: ParsedAlternative[]; meta: QuestionMetadata; expectedAnswer: string | null } {
+    const el = toRoot(html).querySelector(selector);
+    if (!el) {
+        return { alternatives: [], meta: { ...EMPTY_META }, expectedAnswer: null };
+    }
+
+    const correctLetters = new Set<string>();
+    const wrongLetters = new Set<string>();
+
+    el.querySelectorAll('span').forEach(span => {
+        const style = span.getAttribute('style') || '';
+        const text = htmlToText(span);
+        const match = text.match(/(?:^|\s)([A-Z])\)/);
+        if (!match) return;
+
+        if (style.includes('#00a000') || text.includes('CORRETA')) correctLetters.add(match[1]);
+        if (style.includes('#ff0000') || text.includes('ERRADA')) wrongLetters.add(match[1]);
+    });
+
+    // Metadados saem do texto puro; as alternativas, do Markdown (mantém tabelas, ênfase e fórmulas)
+    const metaText = htmlToText(el);
+    let fullText = htmlToMarkdown(el.innerHTML)
+        .replace(/Você marcou a alternativa ERRADA/g, '')
+        .replace(/CORRETA/g, '')
+        .replace(/Justificativa sobre todas as alternativas.*/g, '');
+
+    // Os metadados vêm depois das alternativas/resposta
+    const metaIndex = fullText.search(/Semana:|Nível de Dificuldade:|Objetivo de Aprendizado:/);
+    if (metaIndex !== -1) fullText = fullText.substring(0, metaIndex);
+
+    let expectedAnswer: string | null = null;
+    const expectedMatch = fullText.match(EXPECTED_ANSWER_LABEL);
+    if (expectedMatch) {
+        expectedAnswer = cleanMarkdown(fullText.substring(expectedMatch.index! + expectedMatch[0].length)) || null;
+        fullText = fullText.substring(0, expectedMatch.index);
+    }
+
+    const labels = findOptionLabels(fullText);
+    const alternatives: ParsedAlternative[] = labels.map((label, i) => {
+        const next = labels[i + 1];
+        const content = cleanMarkdown(fullText.substring(label.end, next ? next.start : undefined));
+        // Sem marcação de erro, o aluno marcou as corretas
+        const isSelected = wrongLetters.size > 0 ? wrongLetters.has(label.letter) : correctLetters.has(label.letter);
+
+        return {
+            letter: label.letter,
+            content,
+            isCorrect: correctLetters.has(label.letter),
+            isSelected
+        };
+    });
+
+    const semanaMatch = metaText.match(/Semana:\s*(.+?)(?:\/|$)/m);
+    const dificuldadeMatch = metaText.match(/Nível de Dificuldade:\s*(.+?)(?:\n|$)/);
+    const objetivoMatch = metaText.match(/Objetivo de Aprendizado:\s*([\s\S]+?)$/);
+
+    return {
+        alternatives,
+        expectedAnswer,
+        meta: {
+            semana: semanaMatch ? cleanText(semanaMatch[1]) : null,
+            dificuldade: dificuldadeMatch ? cleanText(dificuldadeMatch[1]) : null,
+            objetivo: objetivoMatch ? cleanText(objetivoMatch[1]) : null
+        }
+    };
+}
+
+/**
+ * Tipo da questão a partir das alternativas extraídas. Sem alternativas, só é discursiva
+ * se houver a resposta esperada; senão devolve null (página não reconhecida).
+ */
+export function detectQuestionType(alternatives: ParsedAlternative[], expectedAnswer: string | null): QuestionType | null {
+    if (alternatives.length === 0) return expectedAnswer ? 'DISCURSIVE' : null;
+
+    if (alternatives.length === 2) {
+        const values = alternatives.map(alt => alt.content.replace(/[*_.]/g, '').trim().toLowerCase());
+        if (TRUE_FALSE_VALUES.some(pair => pair[0] === values[0] && pair[1] === values[1])) return 'TRUE_FALSE';
+    }
+
+    return alternatives.filter(alt => alt.isCorrect).length > 1 ? 'MULTIPLE_SELECT' : 'MULTIPLE_CHOICE';
+}
+
+/**
+ * URLs absolutas das imagens da questão
+ */
+export function parseImages(html: string | HTMLElement, baseUrl?: string, selector = DEFAULT_QUESTION_SELECTORS.images): string[] {
+    return toRoot(html).querySelectorAll(selector)
+        .map(img => img.getAttribute('src') || '')
+        .filter(src => src !== '')
+        .map(src => {
+            try {
+                return baseUrl ? new URL(src, baseUrl).href : src;
+            } catch (e) {
+                return src;
+            }
+        });
+}
+
+/**
+ * Extrai a questão completa a partir do HTML da página.
+ * Página sem enunciado, ou sem alternativas nem resposta esperada, não é uma questão
+ * reconhecível: lança LayoutChangedError em vez de devolver uma questão vazia.
+ */
+export function parseQuestionPage(html: string, baseUrl?: string, selectors: QuestionPageSelectors = DEFAULT_QUESTION_SELECTORS): ParsedQuestion {
+    const root = parse(html);
+    const statement = parseStatement(root, selectors.statement);
+    const images = parseImages(root, baseUrl, selectors.images);
+
+    if (statement === '' && images.length === 0) {
+        throw new LayoutChangedError(`Enunciado da questão não encontrado (seletor "${selectors.statement}")`, 'EXTRACT_QUESTION');
+    }
+
+    const { alternatives, meta, expectedAnswer } = parseAlternatives(root, selectors.alternatives);
+    const type = detectQuestionType(alternatives, expectedAnswer);
+    if (!type) {
+        throw new LayoutChangedError(`Questão sem alternativas nem resposta esperada (seletor "${selectors.alternatives}")`, 'EXTRACT_QUESTION');
+    }
+
+    return {
+        type,
+        statement,
+        justification: parseJustification(root, selectors.justification),
+        expectedAnswer: type === 'DISCURSIVE' ? expectedAnswer : null,
+        alternatives,
+        metadata: meta,
+        images
+    };
+}
@@ -0,0 +1,22 @@
+import { db } from './services/db';
+
+/**
+ * Recalcula "User".reputation a partir do "ReputationLedger":
+ * `npm run reputation:reconcile` lista as divergências; com `-- --apply` corrige.
+ */
+const apply = process.argv.includes('--apply');
+
+db.reconcileReputation(apply)
+    .then((rows) => {
+        rows.forEach(row => console.log(`[Reputation] ${row.userId}: ${row.current} -> ${row.ledger}`));
+        if (rows.length === 0) {
+            console.log('[Reputation] Nenhuma divergência entre "User".reputation e o livro.');
+        } else {
+            console.log(`[Reputation] ${rows.length} usuário(s) ${apply ? 'corrigido(s)' : 'divergente(s) (rode com --apply para corrigir)'}.`);
+        }
+        process.exit(0);
+    })
+    .catch((e) => {
+        console.error('[Reputation] Erro:', e.message || e);
+        process.exit(1);
+    });
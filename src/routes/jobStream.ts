@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import { db } from '../services/db';
+import { jobEvents, JobEvent } from '../services/jobEvents';
+import { JobLogEntry, JobMetrics, JobStatus, LogsData, TERMINAL_STATUSES, toLogsData } from '../types/job';
+
+// Fallback para jobs processados por outro worker (sem eventos neste processo)
+const DB_POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * GET /api/jobs/:id/stream
+ * Envia cada log (event: log, id = id do log), as métricas (event: metrics)
+ * e o status final (event: end). Suporta retomada via Last-Event-ID.
+ */
+export async function streamJob(req: Request<{ id: string }>, res: Response) {
+    const jobId = req.params.id;
+    const job = await db.getJob(jobId);
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const sentLogIds = new Set<string>();
+    let lastMetrics = '';
+    let closed = false;
+
+    const write = (event: string, data: unknown, id?: string) => {
+        if (closed) return;
+        if (id) res.write(`id: ${id}\n`);
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const sendLog = (entry: JobLogEntry) => {
+        if (sentLogIds.has(entry.id)) return;
+        sentLogIds.add(entry.id);
+        write('log', entry, entry.id);
+    };
+
+    const sendMetrics = (metrics: JobMetrics) => {
+        const serialized = JSON.stringify(metrics);
+        if (serialized === lastMetrics) return;
+        lastMetrics = serialized;
+        write('metrics', metrics);
+    };
+
+    const cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(pollTimer);
+        clearInterval(heartbeatTimer);
+    };
+
+    const end = (status: string) => {
+        write('end', { status });
+        cleanup();
+        res.end();
+    };
+
+    const syncFromRecord = (record: any) => {
+        const logsData: LogsData = toLogsData(record.logs);
+        logsData.logs.forEach(sendLog);
+        sendMetrics(logsData.metrics);
+        if (TERMINAL_STATUSES.includes(record.status as JobStatus)) {
+            end(record.status);
+        }
+    };
+
+    // Retomada: tudo até o Last-Event-ID já foi entregue ao cliente
+    const lastEventId = req.get('Last-Event-ID');
+    const initialLogs: JobLogEntry[] = job.logs?.logs || [];
+    const resumeIndex = lastEventId ? initialLogs.findIndex(log => log.id === lastEventId) : -1;
+    initialLogs.slice(0, resumeIndex + 1).forEach(log => sentLogIds.add(log.id));
+
+    const unsubscribe = jobEvents.subscribe(jobId, (event: JobEvent) => {
+        if (event.type === 'log') sendLog(event.entry);
+        else if (event.type === 'metrics') sendMetrics(event.metrics);
+        else end(event.status);
+    });
+
+    const pollTimer = setInterval(async () => {
+        const current = await db.getJob(jobId).catch(() => null);
+        if (current) syncFromRecord(current);
+    }, DB_POLL_INTERVAL_MS);
+
+    const heartbeatTimer = setInterval(() => {
+        if (!closed) res.write(': ping\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', cleanup);
+
+    syncFromRecord(job);
+}
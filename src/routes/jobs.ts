@@ -0,0 +1,166 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../services/db';
+import { encrypt } from '../utils/crypto';
+import { LogsData, toLogsData } from '../types/job';
+import { streamJob } from './jobStream';
+import { DRIVER_NAMES } from '../services/drivers';
+import { ASSESSMENT_TYPES } from '../parsers/examTitle';
+import { cancelLocalJob } from '../worker';
+
+export const jobsRouter = Router();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+const jobScopeSchema = z.object({
+    exams: z.array(z.string().trim().min(1)).optional(),
+    years: z.array(z.string().trim().min(1)).optional(),
+    subjects: z.object({
+        allow: z.array(z.string().trim().min(1)).optional(),
+        deny: z.array(z.string().trim().min(1)).optional()
+    }).optional(),
+    assessmentTypes: z.array(z.enum(ASSESSMENT_TYPES)).optional(),
+    dateWindow: z.object({
+        from: isoDate.optional(),
+        to: isoDate.optional()
+    }).refine(w => !w.from || !w.to || w.from <= w.to, 'from must be before to').optional()
+});
+
+const createJobSchema = z.object({
+    userId: z.string().trim().min(1),
+    login: z.string().trim().min(1),
+    password: z.string().min(1),
+    maxAttempts: z.number().int().min(1).max(10).default(3),
+    // Backend de navegação; sem valor, o worker usa SCRAPER_DRIVER
+    driver: z.enum(DRIVER_NAMES).optional(),
+    scope: jobScopeSchema.optional()
+});
+
+const cancelJobSchema = z.object({
+    requestedBy: z.string().trim().min(1).max(120).default('api')
+});
+
+const paginationSchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+/**
+ * Formata a linha do ImportJob para a resposta da API (logs + metrics achatados)
+ */
+const serializeJob = (job: any) => {
+    const logsData: LogsData = toLogsData(job.logs);
+    return {
+        id: job.id,
+        userId: job.userId,
+        status: job.status,
+        logs: logsData.logs,
+        metrics: logsData.metrics,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+        completedAt: job.completedAt,
+        cancelRequestedAt: job.cancelRequestedAt,
+        cancelRequestedBy: job.cancelRequestedBy,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        nextRunAt: job.nextRunAt,
+        lastError: job.lastError,
+        errorClass: job.errorClass,
+        errorStep: job.errorStep,
+        checkpoint: job.checkpoint,
+        driver: job.driver,
+        scope: job.scope,
+        lease: {
+            workerId: job.workerId,
+            expiresAt: job.leaseExpiresAt,
+            reclaimedAt: job.leaseReclaimedAt
+        }
+    };
+};
+
+jobsRouter.post('/jobs', async (req, res) => {
+    const parsed = createJobSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: z.flattenError(parsed.error).fieldErrors });
+    }
+
+    const { userId, login, password, maxAttempts, driver, scope } = parsed.data;
+    const job = await db.createJob(userId, login, encrypt(password), maxAttempts, driver, scope);
+
+    res.status(201).json(serializeJob(job));
+});
+
+jobsRouter.get('/jobs/:id', async (req, res) => {
+    const job = await db.getJob(req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(serializeJob(job));
+});
+
+jobsRouter.get('/jobs/:id/stream', streamJob);
+
+// Questões que o job gravou ou reconfirmou (rastreio de importação ruim)
+jobsRouter.get('/jobs/:id/questions', async (req, res) => {
+    const parsed = paginationSchema.safeParse(req.query);
+    if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid pagination parameters', details: z.flattenError(parsed.error).fieldErrors });
+    }
+
+    const { page, pageSize } = parsed.data;
+    const { questions, total } = await db.listQuestionsByJob(req.params.id, pageSize, (page - 1) * pageSize);
+
+    res.json({
+        data: questions,
+        pagination: {
+            page,
+            pageSize,
+            total,
+            totalPages: Math.ceil(total / pageSize)
+        }
+    });
+});
+
+jobsRouter.post('/jobs/:id/cancel', async (req, res) => {
+    const parsed = cancelJobSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: z.flattenError(parsed.error).fieldErrors });
+    }
+
+    const { requestedBy } = parsed.data;
+    const cancelled = await db.requestJobCancel(req.params.id, requestedBy);
+
+    if (!cancelled) {
+        const job = await db.getJob(req.params.id);
+        if (!job) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+        return res.status(409).json({ error: `Job already finished with status ${job.status}` });
+    }
+
+    // Se o job roda neste processo, interrompe o navegador imediatamente
+    const signalled = cancelled.status === 'PROCESSING' && cancelLocalJob(cancelled.id, requestedBy);
+
+    res.status(202).json({ id: cancelled.id, status: cancelled.status, signalled });
+});
+
+jobsRouter.get('/users/:userId/jobs', async (req, res) => {
+    const parsed = paginationSchema.safeParse(req.query);
+    if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid pagination parameters', details: z.flattenError(parsed.error).fieldErrors });
+    }
+
+    const { page, pageSize } = parsed.data;
+    const { jobs, total } = await db.listUserJobs(req.params.userId, pageSize, (page - 1) * pageSize);
+
+    res.json({
+        data: jobs.map(serializeJob),
+        pagination: {
+            page,
+            pageSize,
+            total,
+            totalPages: Math.ceil(total / pageSize)
+        }
+    });
+});
@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../services/db';
+import { QUESTION_DIFFICULTIES } from '../types/question';
+
+export const questionsRouter = Router();
+
+const attemptsQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20),
+    // "false" lista só as questões que o aluno errou
+    correct: z.enum(['true', 'false']).optional(),
+    difficulty: z.enum(QUESTION_DIFFICULTIES).optional(),
+    learningObjective: z.string().trim().min(1).optional(),
+    subject: z.string().trim().min(1).optional()
+});
+
+questionsRouter.get('/users/:userId/attempts', async (req, res) => {
+    const parsed = attemptsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid query parameters', details: z.flattenError(parsed.error).fieldErrors });
+    }
+
+    const { page, pageSize, correct, difficulty, learningObjective, subject } = parsed.data;
+    const { attempts, total } = await db.listQuestionAttempts(req.params.userId, {
+        isCorrect: correct === undefined ? undefined : correct === 'true',
+        difficulty,
+        learningObjective,
+        subject
+    }, pageSize, (page - 1) * pageSize);
+
+    res.json({
+        data: attempts,
+        pagination: {
+            page,
+            pageSize,
+            total,
+            totalPages: Math.ceil(total / pageSize)
+        }
+    });
+});
+
+/**
+ * De onde a questão veio: provas, alunos e jobs que a capturaram
+ */
+questionsRouter.get('/questions/:questionId/provenance', async (req, res) => {
+    const sources = await db.getQuestionProvenance(req.params.questionId);
+    res.json({
+        questionId: req.params.questionId,
+        seenInExams: new Set(sources.map(source => source.examId)).size,
+        sources
+    });
+});
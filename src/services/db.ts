@@ -1,274 +1,863 @@
-import { Pool } from 'pg';
-import crypto from 'crypto';
-import dotenv from 'dotenv';
-
-import { createId } from "@paralleldrive/cuid2";
-
-dotenv.config();
-
-const pool = new Pool({
-    connectionString: process.env.DATABASE_URL,
-    // Adjust pool settings if needed
-    max: 10,
-    idleTimeoutMillis: 30000,
-});
-
-pool.on('error', (err) => {
-    console.error('Unexpected error on idle client', err);
-    process.exit(-1);
-});
-
-export const db = {
-    /**
-     * Busca um job PENDING e imediatamente o marca como PROCESSING (Locking Seguro)
-     */
-    async fetchAndLockJob() {
-        const client = await pool.connect();
-        try {
-            await client.query('BEGIN');
-
-            // SKIP LOCKED is critical to prevent multiple workers from grabbing the same job
-            const { rows } = await client.query(`
-                SELECT * FROM "ImportJob" 
-                WHERE status = 'PENDING' 
-                ORDER BY "createdAt" ASC 
-                LIMIT 1 
-                FOR UPDATE SKIP LOCKED
-            `);
-
-            if (rows.length === 0) {
-                await client.query('COMMIT');
-                return null;
-            }
-
-            const job = rows[0];
-
-            // Mark as PROCESSING
-            const updateResult = await client.query(`
-                UPDATE "ImportJob" 
-                SET status = 'PROCESSING', "updatedAt" = NOW() 
-                WHERE id = $1 
-                RETURNING *
-            `, [job.id]);
-
-            await client.query('COMMIT');
-            return updateResult.rows[0];
-        } catch (e) {
-            await client.query('ROLLBACK');
-            throw e;
-        } finally {
-            client.release();
-        }
-    },
-
-    /**
-     * Retorna o status atual do job (para verificar cancelamento ativo)
-     */
-    async getJobStatus(jobId: string): Promise<string | null> {
-        try {
-            const { rows } = await pool.query(`
-                SELECT status FROM "ImportJob" WHERE id = $1
-            `, [jobId]);
-            if (rows.length > 0) return rows[0].status;
-            return null;
-        } catch (e) {
-            console.error(`Failed to get status for job ${jobId}:`, e);
-            return null;
-        }
-    },
-
-    /**
-     * Atualiza o progresso do scraping (logs e metrics)
-     */
-    async updateJobProgress(jobId: string, logsData: any) {
-        try {
-            await pool.query(`
-                UPDATE "ImportJob"
-                SET logs = $1::jsonb, "updatedAt" = NOW()
-                WHERE id = $2
-            `, [JSON.stringify(logsData), jobId]);
-        } catch (e) {
-            console.error(`Failed to update progress for job ${jobId}:`, e);
-        }
-    },
-
-    /**
-     * Finaliza o job com sucesso
-     */
-    async completeJob(jobId: string, logsData: any) {
-        try {
-            await pool.query(`
-                UPDATE "ImportJob"
-                SET status = 'COMPLETED', "completedAt" = NOW(), "updatedAt" = NOW(), logs = $1:: jsonb
-                WHERE id = $2
-                `, [JSON.stringify(logsData), jobId]);
-        } catch (e) {
-            console.error(`Failed to complete job ${jobId}:`, e);
-        }
-    },
-
-    /**
-     * Finaliza o job com falha
-     */
-    async failJob(jobId: string, logsData: any) {
-        try {
-            await pool.query(`
-                UPDATE "ImportJob"
-                SET status = 'FAILED', "updatedAt" = NOW(), logs = $1:: jsonb
-                WHERE id = $2
-                `, [JSON.stringify(logsData), jobId]);
-        } catch (e) {
-            console.error(`Failed to fail job ${jobId}:`, e);
-        }
-    },
-
-    /**
-     * Passo B e C: Insere a questão atrelada a uma disciplina (criando se necessário).
-     * Inclui alternativas, e adiciona +10 xp.
-     */
-    async saveScrapedQuestion(userId: string, questionData: any) {
-        const client = await pool.connect();
-        try {
-            await client.query('BEGIN');
-
-            // 1. Resolve Subject
-            let subjectId;
-            const subjectRes = await client.query(`
-                SELECT id FROM "Subject" WHERE LOWER(name) = LOWER($1)
-            `, [questionData.subjectName]);
-
-            if (subjectRes.rows.length > 0) {
-                subjectId = subjectRes.rows[0].id;
-            } else {
-                const newSubjRes = await client.query(`
-                    INSERT INTO "Subject" (id, name, color, icon)
-                    VALUES ($1, $2, '#3BB2F6', '📚')
-                    ON CONFLICT (name) DO NOTHING
-                    RETURNING id
-                `, [createId(), questionData.subjectName]);
-
-                if (newSubjRes.rows.length > 0) {
-                    subjectId = newSubjRes.rows[0].id;
-                } else {
-                    // Foi inserido por outro processo de background
-                    const retrySubjRes = await client.query(`
-                        SELECT id FROM "Subject" WHERE LOWER(name) = LOWER($1)
-                    `, [questionData.subjectName]);
-                    subjectId = retrySubjRes.rows[0].id;
-                }
-            }
-
-            // 1.5. Check if Question already exists
-            const exactTitle = questionData.title.trim();
-            const exactBody = questionData.body.trim();
-            const cleanBody = questionData.body.replace(/[\s_*#\-`~]/g, '');
-
-            const existingQuestionRes = await client.query(`
-                SELECT id FROM "Question" 
-                WHERE TRIM(text) = $1
-                   OR TRIM(title) = $2
-                   OR REGEXP_REPLACE(text, '[\\s_*#\\-\`~]', '', 'g') = $3
-            `, [exactBody, exactTitle, cleanBody]);
-
-            if (existingQuestionRes.rows.length > 0) {
-                console.log(`Question already exists`);
-                await client.query('ROLLBACK');
-                return existingQuestionRes.rows[0].id;
-            }
-
-            // 2. Insert Question
-            const questionId = createId();
-            const weekText = questionData.metadata?.semana || null;
-
-            await client.query(`
-                INSERT INTO "Question" (id, title, text, week, "createdAt", "updatedAt", views, "isVerified", "userId", "subjectId", "verificationRequested")
-                VALUES ($1, $2, $3, $4, NOW(), NOW(), 0, true, $5, $6, false)
-            `, [questionId, questionData.title.trim(), questionData.body.trim(), weekText, userId, subjectId]);
-
-            // 3. Insert Alternatives
-            for (const alt of questionData.alternatives) {
-                await client.query(`
-                    INSERT INTO "Alternative" (id, letter, text, "isCorrect", "questionId")
-                    VALUES ($1, $2, $3, $4, $5)
-                `, [createId(), alt.letter, alt.content, alt.isCorrect, questionId]);
-            }
-
-            // 4. Insert Comment (Justification)
-            if (questionData.justification && questionData.justification.trim() !== '') {
-                const commentText = `**🎓 Gabarito Comentado (AVA):**\n\n${questionData.justification}`;
-                await client.query(`
-                    INSERT INTO "Comment" (id, text, "createdAt", "userId", "questionId", "isDeleted")
-                    VALUES ($1, $2, NOW(), $3, $4, false)
-                `, [createId(), commentText, userId, questionId]);
-            }
-
-            // 5. Update Reputation Atomically
-            await client.query(`
-                UPDATE "User"
-                SET reputation = reputation + 10
-                WHERE id = $1
-            `, [userId]);
-
-            await client.query('COMMIT');
-            return questionId;
-        } catch (e) {
-            await client.query('ROLLBACK');
-            throw e;
-        } finally {
-            client.release();
-        }
-    },
-
-    /**
-     * Passo 3: Salva o Histórico de Raspagem.
-     */
-    async saveScrapeHistory(userId: string, year: string, examId: string, examName: string) {
-        try {
-            await pool.query(`
-                INSERT INTO "ScrapeHistory" (id, "userId", year, "examId", "examName", "completedAt")
-                VALUES ($1, $2, $3, $4, $5, NOW())
-                ON CONFLICT ("userId", "examId") DO NOTHING
-            `, [createId(), userId, year, examId, examName]);
-        } catch (e) {
-            console.error('Failed to save scrape history:', e);
-        }
-    },
-
-    /**
-     * Busca os exames já finalizados pelo usuário
-     */
-    async getUserIgnoredExams(userId: string): Promise<string[]> {
-        try {
-            const { rows } = await pool.query(`
-                SELECT "examName" FROM "ScrapeHistory" WHERE "userId" = $1
-            `, [userId]);
-            return rows.map((r: any) => r.examName);
-        } catch (e) {
-            console.error('Failed to get user ignored exams:', e);
-            return [];
-        }
-    },
-
-    /**
-     * Limpa jobs que ficaram travados em PROCESSING por mais de 30 minutos
-     */
-    async clearStuckJobs() {
-        try {
-            const res = await pool.query(`
-                UPDATE "ImportJob"
-                SET status = 'PENDING', "updatedAt" = NOW()
-                WHERE status = 'PROCESSING' 
-                  AND "updatedAt" < NOW() - INTERVAL '30 minutes'
-                RETURNING id
-            `);
-
-            if (res.rows.length > 0) {
-                console.log(`[Worker Supervisor] Reset ${res.rows.length} stuck jobs from PROCESSING to PENDING.`);
-            }
-        } catch (e) {
-            console.error('Failed to clear stuck jobs:', e);
-        }
-    }
-
-};
-
+import { Pool, PoolClient } from 'pg';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+import { createId } from "@paralleldrive/cuid2";
+import { JOB_NOTIFY_CHANNEL } from './schema';
+import { ScrapeError } from '../utils/errors';
+import { QuestionDifficulty, QuestionProvenance, QuestionType, SaveQuestionResult } from '../types/question';
+import { normalizeDifficulty, normalizeForFingerprint, questionFingerprint } from '../utils/text';
+import { ExamTitle } from '../parsers/examTitle';
+import { JobLogEntry, JobScope, emptyLogsData } from '../types/job';
+import { ReputationReason, XP_RULES, applyDailyCap, reputationReasonFor } from './xpRules';
+
+dotenv.config();
+
+const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+    // Adjust pool settings if needed
+    max: 10,
+    idleTimeoutMillis: 30000,
+});
+
+pool.on('error', (err) => {
+    console.error('Unexpected error on idle client', err);
+    process.exit(-1);
+});
+
+/**
+ * Registra (ou atualiza) a resposta do aluno para a questão. Discursivas não têm marcação.
+ */
+async function upsertQuestionAttempt(client: PoolClient, userId: string, questionId: string, alternatives: any[]) {
+    const selected = alternatives.filter(alt => alt.isSelected).map(alt => alt.letter);
+    if (selected.length === 0) return;
+
+    const correct = alternatives.filter(alt => alt.isCorrect).map(alt => alt.letter);
+    const isCorrect = correct.length > 0 && selected.length === correct.length && selected.every(letter => correct.includes(letter));
+
+    await client.query(`
+        INSERT INTO "QuestionAttempt" (id, "userId", "questionId", "selectedLetters", "isCorrect", "createdAt", "updatedAt")
+        VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+        ON CONFLICT ("userId", "questionId") DO UPDATE
+        SET "selectedLetters" = EXCLUDED."selectedLetters", "isCorrect" = EXCLUDED."isCorrect", "updatedAt" = NOW()
+    `, [createId(), userId, questionId, selected, isCorrect]);
+}
+
+/**
+ * Registra de onde o aluno capturou a questão, uma linha por job. A mesma prova no mesmo job
+ * (ex.: retomada do checkpoint) só atualiza a data.
+ */
+async function upsertQuestionProvenance(client: PoolClient, userId: string, questionId: string, provenance: QuestionProvenance | undefined) {
+    if (!provenance) return;
+
+    await client.query(`
+        INSERT INTO "QuestionProvenance" (id, "questionId", "userId", "jobId", year, "examId", "examName", "questionLabel", "scrapedAt")
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+        ON CONFLICT ("questionId", "userId", "examId", "jobId") DO UPDATE
+        SET year = EXCLUDED.year, "examName" = EXCLUDED."examName",
+            "questionLabel" = EXCLUDED."questionLabel", "scrapedAt" = NOW()
+    `, [createId(), questionId, userId, provenance.jobId, provenance.year, provenance.examId, provenance.examName, provenance.questionLabel]);
+}
+
+/**
+ * Lança XP no livro de reputação (respeitando o teto diário) e atualiza o total derivado em "User".
+ * Devolve o valor efetivamente lançado.
+ */
+async function awardReputation(client: PoolClient, userId: string, reason: Exclude<ReputationReason, 'OPENING_BALANCE'>,
+    questionId: string, jobId: string | null): Promise<number> {
+    const ruleAmount = XP_RULES[reason];
+    if (ruleAmount === 0) return 0;
+
+    // Serializa os lançamentos do usuário: jobs em paralelo não furam o teto diário
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`reputation:${userId}`]);
+
+    const { rows } = await client.query(`
+        SELECT COALESCE(SUM(amount), 0)::int AS total FROM "ReputationLedger"
+        WHERE "userId" = $1 AND reason <> 'OPENING_BALANCE' AND "createdAt" >= date_trunc('day', NOW())
+    `, [userId]);
+    const amount = applyDailyCap(ruleAmount, rows[0].total);
+
+    // Lançamento cortado pelo teto também fica registrado (amount 0), para auditoria
+    await client.query(`
+        INSERT INTO "ReputationLedger" (id, "userId", amount, reason, "ruleAmount", "questionId", "jobId", "createdAt")
+        VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+    `, [createId(), userId, amount, reason, ruleAmount, questionId, jobId]);
+
+    if (amount > 0) {
+        await client.query(`UPDATE "User" SET reputation = reputation + $2 WHERE id = $1`, [userId, amount]);
+    }
+    return amount;
+}
+
+const JUSTIFICATION_HEADER = '**🎓 Gabarito Comentado (AVA):**';
+
+// Colunas da questão que uma nova captura pode preencher se estiverem vazias (rótulo para o log)
+const MERGEABLE_COLUMNS: [string, string][] = [
+    ['week', 'semana'],
+    ['difficulty', 'dificuldade'],
+    ['learningObjective', 'objetivo'],
+    ['expectedAnswer', 'resposta esperada'],
+    ['courseCode', 'código da disciplina'],
+    ['examPeriod', 'período'],
+    ['assessmentType', 'tipo de avaliação']
+];
+
+async function insertJustificationComment(client: PoolClient, userId: string, questionId: string, justification: string) {
+    await client.query(`
+        INSERT INTO "Comment" (id, text, "createdAt", "userId", "questionId", "isDeleted")
+        VALUES ($1, $2, NOW(), $3, $4, false)
+    `, [createId(), `${JUSTIFICATION_HEADER}\n\n${justification}`, userId, questionId]);
+}
+
+/**
+ * Completa uma questão já existente com o que a nova captura trouxe a mais: justificativa,
+ * metadados vazios e o gabarito. Gabarito igual vira confirmação; diferente marca para revisão.
+ */
+async function mergeIntoExistingQuestion(client: PoolClient, userId: string, questionId: string, values: Record<string, string | null>,
+    justification: string | null, alternatives: any[]): Promise<{ merged: string[]; answerConflict: boolean }> {
+    const merged: string[] = [];
+
+    const { rows: [existing] } = await client.query(`
+        SELECT q."userId", q.week, q.difficulty, q."learningObjective", q."expectedAnswer", q."courseCode", q."examPeriod", q."assessmentType",
+               EXISTS (
+                   SELECT 1 FROM "Comment" c
+                   WHERE c."questionId" = q.id AND c."isDeleted" = false AND c.text LIKE $2 || '%'
+               ) AS "hasJustification"
+        FROM "Question" q WHERE q.id = $1
+        FOR UPDATE
+    `, [questionId, JUSTIFICATION_HEADER]);
+
+    // 1. Metadados vazios
+    const filled = MERGEABLE_COLUMNS.filter(([column]) => existing[column] === null && values[column]);
+    if (filled.length > 0) {
+        const assignments = filled.map(([column], i) => `"${column}" = $${i + 2}`).join(', ');
+        await client.query(`UPDATE "Question" SET ${assignments}, "updatedAt" = NOW() WHERE id = $1`,
+            [questionId, ...filled.map(([column]) => values[column])]);
+        merged.push(...filled.map(([, label]) => label));
+    }
+
+    // 2. Justificativa que faltava
+    if (justification && justification.trim() !== '' && !existing.hasJustification) {
+        await insertJustificationComment(client, userId, questionId, justification);
+        merged.push('justificativa');
+    }
+
+    // 3. Gabarito: sem gabarito salvo, adota o desta captura; com gabarito, confirma ou contesta
+    const scrapedLetters = alternatives.filter(alt => alt.isCorrect).map(alt => alt.letter).sort();
+    let answerConflict = false;
+
+    if (scrapedLetters.length > 0) {
+        const { rows } = await client.query(`
+            SELECT letter FROM "Alternative" WHERE "questionId" = $1 AND "isCorrect" ORDER BY letter
+        `, [questionId]);
+        const storedLetters: string[] = rows.map(row => row.letter);
+
+        if (storedLetters.length === 0) {
+            await client.query(`
+                UPDATE "Alternative" SET "isCorrect" = (letter = ANY($2)) WHERE "questionId" = $1
+            `, [questionId, scrapedLetters]);
+            merged.push(`gabarito (${scrapedLetters.join(', ')})`);
+        } else {
+            const agrees = storedLetters.length === scrapedLetters.length && storedLetters.every((letter, i) => letter === scrapedLetters[i]);
+            // O CTE enxerga a linha anterior: recaptura da mesma prova não conta como confirmação nova
+            const { rows: [confirmation] } = await client.query(`
+                WITH previous AS (
+                    SELECT agrees FROM "AnswerConfirmation" WHERE "questionId" = $2 AND "userId" = $3
+                )
+                INSERT INTO "AnswerConfirmation" (id, "questionId", "userId", "correctLetters", agrees, "createdAt", "updatedAt")
+                VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+                ON CONFLICT ("questionId", "userId") DO UPDATE
+                SET "correctLetters" = EXCLUDED."correctLetters", agrees = EXCLUDED.agrees, "updatedAt" = NOW()
+                RETURNING (SELECT agrees FROM previous) AS "previousAgrees"
+            `, [createId(), questionId, userId, scrapedLetters, agrees]);
+            const changed = confirmation.previousAgrees === null || confirmation.previousAgrees !== agrees;
+
+            if (agrees) {
+                // Quem criou a questão confirmando o próprio gabarito não é enriquecimento
+                if (changed && existing.userId !== userId) merged.push('confirmação do gabarito');
+            } else {
+                answerConflict = true;
+                await client.query(`UPDATE "Question" SET "verificationRequested" = true, "updatedAt" = NOW() WHERE id = $1`, [questionId]);
+            }
+        }
+    }
+
+    return { merged, answerConflict };
+}
+
+// Colunas expostas pela API (nunca inclui login/senha)
+const JOB_PUBLIC_COLUMNS = `id, "userId", status, logs, "createdAt", "updatedAt", "completedAt", "cancelRequestedAt", "cancelRequestedBy",
+    "workerId", "leaseExpiresAt", "leaseReclaimedAt", attempts, "maxAttempts", "nextRunAt", "lastError", "errorClass", "errorStep", checkpoint, driver, scope`;
+
+export const db = {
+    /**
+     * Cria um novo ImportJob PENDING (senha já deve vir cifrada) e avisa os workers
+     */
+    async createJob(userId: string, login: string, encryptedPassword: string, maxAttempts: number, driver: string | null = null, scope: JobScope | null = null) {
+        const { rows } = await pool.query(`
+            INSERT INTO "ImportJob" (id, "userId", login, password, status, "maxAttempts", driver, scope, "createdAt", "updatedAt")
+            VALUES ($1, $2, $3, $4, 'PENDING', $5, $6, $7, NOW(), NOW())
+            RETURNING ${JOB_PUBLIC_COLUMNS}
+        `, [createId(), userId, login, encryptedPassword, maxAttempts, driver, scope]);
+
+        await pool.query(`SELECT pg_notify($1, $2)`, [JOB_NOTIFY_CHANNEL, rows[0].id])
+            .catch((e) => console.error('Failed to notify new job:', e));
+
+        return rows[0];
+    },
+
+    /**
+     * Busca um job pelo id (sem credenciais)
+     */
+    async getJob(jobId: string) {
+        const { rows } = await pool.query(`
+            SELECT ${JOB_PUBLIC_COLUMNS} FROM "ImportJob" WHERE id = $1
+        `, [jobId]);
+        return rows[0] || null;
+    },
+
+    /**
+     * Lista os jobs de um usuário, do mais recente para o mais antigo
+     */
+    async listUserJobs(userId: string, limit: number, offset: number) {
+        const [jobsRes, countRes] = await Promise.all([
+            pool.query(`
+                SELECT ${JOB_PUBLIC_COLUMNS} FROM "ImportJob"
+                WHERE "userId" = $1
+                ORDER BY "createdAt" DESC
+                LIMIT $2 OFFSET $3
+            `, [userId, limit, offset]),
+            pool.query(`
+                SELECT COUNT(*)::int AS total FROM "ImportJob" WHERE "userId" = $1
+            `, [userId])
+        ]);
+        return { jobs: jobsRes.rows, total: countRes.rows[0].total as number };
+    },
+
+    /**
+     * Busca um job PENDING e imediatamente o marca como PROCESSING (Locking Seguro)
+     */
+    async fetchAndLockJob(workerId: string, leaseMs: number) {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            // SKIP LOCKED is critical to prevent multiple workers from grabbing the same job
+            const { rows } = await client.query(`
+                SELECT * FROM "ImportJob" 
+                WHERE status = 'PENDING' 
+                  AND ("nextRunAt" IS NULL OR "nextRunAt" <= NOW())
+                ORDER BY "createdAt" ASC 
+                LIMIT 1 
+                FOR UPDATE SKIP LOCKED
+            `);
+
+            if (rows.length === 0) {
+                await client.query('COMMIT');
+                return null;
+            }
+
+            const job = rows[0];
+
+            // Mark as PROCESSING, take the lease and count the attempt
+            const updateResult = await client.query(`
+                UPDATE "ImportJob" 
+                SET status = 'PROCESSING', "updatedAt" = NOW(), attempts = attempts + 1, "nextRunAt" = NULL,
+                    "workerId" = $2, "leaseExpiresAt" = NOW() + ($3 * INTERVAL '1 millisecond')
+                WHERE id = $1 
+                RETURNING *
+            `, [job.id, workerId, leaseMs]);
+
+            await client.query('COMMIT');
+            return updateResult.rows[0];
+        } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+        } finally {
+            client.release();
+        }
+    },
+
+    /**
+     * Heartbeat: renova o lease do job enquanto este worker ainda for o dono.
+     * Retorna false se o lease foi perdido (job reclamado ou finalizado).
+     */
+    async renewJobLease(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+        try {
+            const { rowCount } = await pool.query(`
+                UPDATE "ImportJob"
+                SET "leaseExpiresAt" = NOW() + ($3 * INTERVAL '1 millisecond')
+                WHERE id = $1 AND "workerId" = $2 AND status = 'PROCESSING'
+            `, [jobId, workerId, leaseMs]);
+            return (rowCount ?? 0) > 0;
+        } catch (e) {
+            // Falha de conexão não significa lease perdido; tenta no próximo heartbeat
+            console.error(`Failed to renew lease for job ${jobId}:`, e);
+            return true;
+        }
+    },
+
+    /**
+     * Retorna o status atual do job (para verificar cancelamento ativo)
+     */
+    async getJobStatus(jobId: string): Promise<string | null> {
+        try {
+            const { rows } = await pool.query(`
+                SELECT status FROM "ImportJob" WHERE id = $1
+            `, [jobId]);
+            if (rows.length > 0) return rows[0].status;
+            return null;
+        } catch (e) {
+            console.error(`Failed to get status for job ${jobId}:`, e);
+            return null;
+        }
+    },
+
+    /**
+     * Solicita o cancelamento de um job. Jobs PENDING são cancelados na hora, com o registro
+     * de quem cancelou nos logs; jobs PROCESSING ficam marcados até o worker interromper a captura
+     * (e ele registra o log). Retorna null se o job não existe ou já terminou.
+     */
+    async requestJobCancel(jobId: string, requestedBy: string): Promise<{ id: string; status: string } | null> {
+        const entry: JobLogEntry = {
+            id: crypto.randomUUID(),
+            time: new Date().toTimeString().split(' ')[0],
+            msg: `Captura cancelada por ${requestedBy} antes de iniciar.`,
+            type: 'warning'
+        };
+        const { rows } = await pool.query(`
+            UPDATE "ImportJob"
+            SET status = CASE WHEN status = 'PENDING' THEN 'CANCELLED' ELSE status END,
+                logs = CASE WHEN status = 'PENDING'
+                    THEN jsonb_set(COALESCE(logs, $4::jsonb), '{logs}', COALESCE(logs->'logs', '[]'::jsonb) || jsonb_build_array($3::jsonb))
+                    ELSE logs END,
+                "cancelRequestedAt" = NOW(),
+                "cancelRequestedBy" = $2,
+                "updatedAt" = NOW()
+            WHERE id = $1 AND status IN ('PENDING', 'PROCESSING')
+            RETURNING id, status
+        `, [jobId, requestedBy, JSON.stringify(entry), JSON.stringify(emptyLogsData())]);
+        return rows[0] || null;
+    },
+
+    /**
+     * Verifica se houve pedido de cancelamento para o job.
+     * Status FAILED/CANCELLED definido externamente também conta (fluxo legado).
+     */
+    async getJobCancellation(jobId: string): Promise<{ requestedBy: string } | null> {
+        try {
+            const { rows } = await pool.query(`
+                SELECT status, "cancelRequestedAt", "cancelRequestedBy" FROM "ImportJob" WHERE id = $1
+            `, [jobId]);
+            if (rows.length === 0) return null;
+
+            const job = rows[0];
+            if (job.cancelRequestedAt) return { requestedBy: job.cancelRequestedBy || 'desconhecido' };
+            if (job.status === 'FAILED' || job.status === 'CANCELLED') return { requestedBy: 'sistema (status alterado externamente)' };
+            return null;
+        } catch (e) {
+            console.error(`Failed to get cancellation for job ${jobId}:`, e);
+            return null;
+        }
+    },
+
+    /**
+     * Atualiza o progresso do scraping (logs e metrics).
+     * As escritas do worker só valem enquanto ele for o dono do lease: retornam false se o lease foi perdido
+     * (job reclamado por outro worker ou finalizado). Falha de conexão não conta como lease perdido.
+     */
+    async updateJobProgress(jobId: string, workerId: string, logsData: any): Promise<boolean> {
+        try {
+            const { rowCount } = await pool.query(`
+                UPDATE "ImportJob"
+                SET logs = $3::jsonb, "updatedAt" = NOW()
+                WHERE id = $1 AND "workerId" = $2 AND status = 'PROCESSING'
+            `, [jobId, workerId, JSON.stringify(logsData)]);
+            return (rowCount ?? 0) > 0;
+        } catch (e) {
+            console.error(`Failed to update progress for job ${jobId}:`, e);
+            return true;
+        }
+    },
+
+    /**
+     * Salva o ponto de retomada (ano, prova e próxima questão) do job
+     */
+    async saveJobCheckpoint(jobId: string, workerId: string, checkpoint: any): Promise<boolean> {
+        try {
+            const { rowCount } = await pool.query(`
+                UPDATE "ImportJob"
+                SET checkpoint = $3::jsonb, "updatedAt" = NOW()
+                WHERE id = $1 AND "workerId" = $2 AND status = 'PROCESSING'
+            `, [jobId, workerId, JSON.stringify(checkpoint)]);
+            return (rowCount ?? 0) > 0;
+        } catch (e) {
+            console.error(`Failed to save checkpoint for job ${jobId}:`, e);
+            return true;
+        }
+    },
+
+    /**
+     * Finaliza o job com sucesso
+     */
+    async completeJob(jobId: string, workerId: string, logsData: any): Promise<boolean> {
+        try {
+            const { rowCount } = await pool.query(`
+                UPDATE "ImportJob"
+                SET status = 'COMPLETED', "completedAt" = NOW(), "updatedAt" = NOW(), "leaseExpiresAt" = NULL, checkpoint = NULL, logs = $3::jsonb
+                WHERE id = $1 AND "workerId" = $2 AND status = 'PROCESSING'
+            `, [jobId, workerId, JSON.stringify(logsData)]);
+            return (rowCount ?? 0) > 0;
+        } catch (e) {
+            console.error(`Failed to complete job ${jobId}:`, e);
+            return true;
+        }
+    },
+
+    /**
+     * Finaliza o job com falha (sem nova tentativa)
+     */
+    async failJob(jobId: string, workerId: string, logsData: any, error: ScrapeError): Promise<boolean> {
+        try {
+            const { rowCount } = await pool.query(`
+                UPDATE "ImportJob"
+                SET status = 'FAILED', "updatedAt" = NOW(), "leaseExpiresAt" = NULL,
+                    "lastError" = $4, "errorClass" = $5, "errorStep" = $6, logs = $3::jsonb
+                WHERE id = $1 AND "workerId" = $2 AND status = 'PROCESSING'
+            `, [jobId, workerId, JSON.stringify(logsData), error.message, error.errorClass, error.step]);
+            return (rowCount ?? 0) > 0;
+        } catch (e) {
+            console.error(`Failed to fail job ${jobId}:`, e);
+            return true;
+        }
+    },
+
+    /**
+     * Devolve o job para a fila, para ser executado novamente após o backoff
+     */
+    async retryJob(jobId: string, workerId: string, logsData: any, delayMs: number, error: ScrapeError): Promise<boolean> {
+        try {
+            const { rowCount } = await pool.query(`
+                UPDATE "ImportJob"
+                SET status = 'PENDING', "updatedAt" = NOW(), "leaseExpiresAt" = NULL,
+                    "nextRunAt" = NOW() + ($4 * INTERVAL '1 millisecond'),
+                    "lastError" = $5, "errorClass" = $6, "errorStep" = $7, logs = $3::jsonb
+                WHERE id = $1 AND "workerId" = $2 AND status = 'PROCESSING'
+            `, [jobId, workerId, JSON.stringify(logsData), delayMs, error.message, error.errorClass, error.step]);
+            return (rowCount ?? 0) > 0;
+        } catch (e) {
+            console.error(`Failed to requeue job ${jobId}:`, e);
+            return true;
+        }
+    },
+
+    /**
+     * Tentativas esgotadas: move o job para DEAD mantendo o último erro para análise
+     */
+    async deadJob(jobId: string, workerId: string, logsData: any, error: ScrapeError): Promise<boolean> {
+        try {
+            const { rowCount } = await pool.query(`
+                UPDATE "ImportJob"
+                SET status = 'DEAD', "updatedAt" = NOW(), "leaseExpiresAt" = NULL,
+                    "lastError" = $4, "errorClass" = $5, "errorStep" = $6, logs = $3::jsonb
+                WHERE id = $1 AND "workerId" = $2 AND status = 'PROCESSING'
+            `, [jobId, workerId, JSON.stringify(logsData), error.message, error.errorClass, error.step]);
+            return (rowCount ?? 0) > 0;
+        } catch (e) {
+            console.error(`Failed to move job ${jobId} to DEAD:`, e);
+            return true;
+        }
+    },
+
+    /**
+     * Finaliza o job como cancelado
+     */
+    async cancelJob(jobId: string, workerId: string, logsData: any): Promise<boolean> {
+        try {
+            const { rowCount } = await pool.query(`
+                UPDATE "ImportJob"
+                SET status = 'CANCELLED', "updatedAt" = NOW(), "leaseExpiresAt" = NULL, logs = $3::jsonb
+                WHERE id = $1 AND "workerId" = $2 AND status = 'PROCESSING'
+            `, [jobId, workerId, JSON.stringify(logsData)]);
+            return (rowCount ?? 0) > 0;
+        } catch (e) {
+            console.error(`Failed to cancel job ${jobId}:`, e);
+            return true;
+        }
+    },
+
+    /**
+     * Devolve o job para a fila (ex.: desligamento do worker), se ainda for o dono
+     */
+    async releaseJob(jobId: string, workerId: string, logsData: any) {
+        try {
+            await pool.query(`
+                UPDATE "ImportJob"
+                SET status = 'PENDING', "updatedAt" = NOW(), "leaseExpiresAt" = NULL, logs = $3::jsonb
+                WHERE id = $1 AND "workerId" = $2 AND status = 'PROCESSING'
+            `, [jobId, workerId, JSON.stringify(logsData)]);
+        } catch (e) {
+            console.error(`Failed to release job ${jobId}:`, e);
+        }
+    },
+
+    /**
+     * Passo B e C: Insere a questão atrelada a uma disciplina (criando se necessário).
+     * Inclui alternativas, e lança o XP da regra correspondente (ver xpRules). Questão idêntica a uma existente não é inserida,
+     * mas completa a existente (ver mergeIntoExistingQuestion); quase-duplicata (mesma impressão digital) é inserida apontando para a original.
+     */
+    async saveScrapedQuestion(userId: string, questionData: any): Promise<SaveQuestionResult> {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            // 1. Resolve Subject
+            let subjectId;
+            const subjectRes = await client.query(`
+                SELECT id FROM "Subject" WHERE LOWER(name) = LOWER($1)
+            `, [questionData.subjectName]);
+
+            if (subjectRes.rows.length > 0) {
+                subjectId = subjectRes.rows[0].id;
+            } else {
+                const newSubjRes = await client.query(`
+                    INSERT INTO "Subject" (id, name, color, icon)
+                    VALUES ($1, $2, '#3BB2F6', '📚')
+                    ON CONFLICT (name) DO NOTHING
+                    RETURNING id
+                `, [createId(), questionData.subjectName]);
+
+                if (newSubjRes.rows.length > 0) {
+                    subjectId = newSubjRes.rows[0].id;
+                } else {
+                    // Foi inserido por outro processo de background
+                    const retrySubjRes = await client.query(`
+                        SELECT id FROM "Subject" WHERE LOWER(name) = LOWER($1)
+                    `, [questionData.subjectName]);
+                    subjectId = retrySubjRes.rows[0].id;
+                }
+            }
+
+            // 1.5. Procura a questão pela impressão digital (indexada)
+            const questionType: QuestionType = questionData.type || 'MULTIPLE_CHOICE';
+            // Discursivas não têm alternativas
+            const alternatives: any[] = questionType === 'DISCURSIVE' ? [] : questionData.alternatives || [];
+            const fingerprint = questionFingerprint(questionData.body, alternatives.map(alt => alt.content));
+            const jobId: string | null = questionData.provenance?.jobId || null;
+
+            const weekText = questionData.metadata?.semana || null;
+            // Discursivas guardam a resposta esperada no lugar das alternativas
+            const expectedAnswer = questionType === 'DISCURSIVE' ? questionData.expectedAnswer?.trim() || null : null;
+            const difficulty = normalizeDifficulty(questionData.metadata?.dificuldade);
+            const learningObjective = questionData.metadata?.objetivo?.trim() || null;
+            const examTitle: ExamTitle | undefined = questionData.examTitle;
+
+            // Serializa quem grava a mesma questão: dois workers ao mesmo tempo não a inserem duas vezes
+            await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`question:${fingerprint}`]);
+
+            const candidatesRes = await client.query(`
+                SELECT q.id, q.text, q."duplicateOfId",
+                       ARRAY(SELECT a.letter FROM "Alternative" a WHERE a."questionId" = q.id ORDER BY a.letter) AS letters,
+                       ARRAY(SELECT a.text FROM "Alternative" a WHERE a."questionId" = q.id ORDER BY a.letter) AS alternatives
+                FROM "Question" q
+                WHERE q.fingerprint = $1
+                ORDER BY q."createdAt", q.id
+            `, [fingerprint]);
+
+            // Idêntica = mesmo texto normalizado e a mesma alternativa em cada letra (questões antigas, salvas
+            // como texto puro, batem com a captura em Markdown); mesma impressão digital com letras trocadas é quase-duplicata
+            const ownStatement = normalizeForFingerprint(questionData.body);
+            const ownAlternatives = [...alternatives]
+                .sort((a, b) => a.letter.localeCompare(b.letter))
+                .map(alt => [alt.letter, normalizeForFingerprint(alt.content)]);
+            const identical = candidatesRes.rows.find(row =>
+                normalizeForFingerprint(row.text) === ownStatement
+                && row.letters.length === ownAlternatives.length
+                && ownAlternatives.every(([letter, content], i) =>
+                    row.letters[i] === letter && normalizeForFingerprint(row.alternatives[i]) === content));
+
+            if (identical) {
+                console.log(`Question already exists`);
+                // A questão já existe: aproveita o que esta captura trouxe a mais
+                const { merged, answerConflict } = await mergeIntoExistingQuestion(client, userId, identical.id, {
+                    week: weekText,
+                    difficulty,
+                    learningObjective,
+                    expectedAnswer,
+                    courseCode: examTitle?.courseCode || null,
+                    examPeriod: examTitle?.period || null,
+                    assessmentType: examTitle?.assessmentType || null
+                }, questionData.justification || null, alternatives);
+                // A resposta deste aluno ainda é dele
+                await upsertQuestionAttempt(client, userId, identical.id, alternatives);
+                await upsertQuestionProvenance(client, userId, identical.id, questionData.provenance);
+                const xp = await awardReputation(client, userId, reputationReasonFor({ status: 'DUPLICATE', merged }), identical.id, jobId);
+                await client.query('COMMIT');
+                return { id: identical.id, status: 'DUPLICATE', duplicateOfId: identical.id, merged, answerConflict, xp };
+            }
+
+            // A original é a primeira que não é ela mesma uma quase-duplicata
+            const original = candidatesRes.rows.find(row => !row.duplicateOfId) || candidatesRes.rows[0];
+            const duplicateOfId: string | null = original?.id || null;
+
+            // 2. Insert Question
+            const questionId = createId();
+
+            await client.query(`
+                INSERT INTO "Question" (id, title, text, week, "questionType", "expectedAnswer", difficulty, "learningObjective",
+                    "courseCode", "examPeriod", "assessmentType", fingerprint, "duplicateOfId",
+                    "createdAt", "updatedAt", views, "isVerified", "userId", "subjectId", "verificationRequested")
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW(), 0, $14, $15, $16, $17)
+            `, [questionId, questionData.title.trim(), questionData.body.trim(), weekText, questionType, expectedAnswer, difficulty, learningObjective,
+                examTitle?.courseCode || null, examTitle?.period || null, examTitle?.assessmentType || null, fingerprint, duplicateOfId,
+                // Quase-duplicata entra sem verificação e com pedido de revisão
+                duplicateOfId === null, userId, subjectId, duplicateOfId !== null]);
+
+            // 3. Insert Alternatives (nenhuma para discursivas)
+            for (const alt of alternatives) {
+                await client.query(`
+                    INSERT INTO "Alternative" (id, letter, text, "isCorrect", "questionId")
+                    VALUES ($1, $2, $3, $4, $5)
+                `, [createId(), alt.letter, alt.content, alt.isCorrect, questionId]);
+            }
+
+            await upsertQuestionAttempt(client, userId, questionId, alternatives);
+            await upsertQuestionProvenance(client, userId, questionId, questionData.provenance);
+
+            // 4. Insert Comment (Justification)
+            if (questionData.justification && questionData.justification.trim() !== '') {
+                await insertJustificationComment(client, userId, questionId, questionData.justification);
+            }
+
+            // 5. Reputação (livro + total derivado)
+            const status = duplicateOfId ? 'NEAR_DUPLICATE' : 'CREATED';
+            const xp = await awardReputation(client, userId, reputationReasonFor({ status, merged: [] }), questionId, jobId);
+
+            await client.query('COMMIT');
+            return { id: questionId, status, duplicateOfId, merged: [], answerConflict: false, xp };
+        } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+        } finally {
+            client.release();
+        }
+    },
+
+    /**
+     * Respostas do aluno com os dados da questão, para revisar (ex: só as erradas)
+     */
+    async listQuestionAttempts(userId: string, filters: { isCorrect?: boolean; difficulty?: QuestionDifficulty; learningObjective?: string; subject?: string }, limit: number, offset: number) {
+        const conditions = ['a."userId" = $1'];
+        const params: any[] = [userId];
+
+        if (filters.isCorrect !== undefined) {
+            params.push(filters.isCorrect);
+            conditions.push(`a."isCorrect" = $${params.length}`);
+        }
+        if (filters.difficulty) {
+            params.push(filters.difficulty);
+            conditions.push(`q.difficulty = $${params.length}`);
+        }
+        if (filters.learningObjective) {
+            params.push(`%${filters.learningObjective}%`);
+            conditions.push(`q."learningObjective" ILIKE $${params.length}`);
+        }
+        if (filters.subject) {
+            params.push(filters.subject);
+            conditions.push(`LOWER(s.name) = LOWER($${params.length})`);
+        }
+
+        const from = `
+            FROM "QuestionAttempt" a
+            JOIN "Question" q ON q.id = a."questionId"
+            LEFT JOIN "Subject" s ON s.id = q."subjectId"
+            WHERE ${conditions.join(' AND ')}
+        `;
+
+        const [attemptsRes, countRes] = await Promise.all([
+            pool.query(`
+                SELECT a."questionId", q.title, s.name AS "subjectName", q."questionType", q.difficulty, q."learningObjective",
+                       a."selectedLetters", a."isCorrect", a."updatedAt",
+                       ARRAY(SELECT letter FROM "Alternative" WHERE "questionId" = q.id AND "isCorrect" ORDER BY letter) AS "correctLetters",
+                       (SELECT COUNT(DISTINCT p."examId")::int FROM "QuestionProvenance" p WHERE p."questionId" = q.id) AS "seenInExams"
+                ${from}
+                ORDER BY a."updatedAt" DESC
+                LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+            `, [...params, limit, offset]),
+            pool.query(`SELECT COUNT(*)::int AS total ${from}`, params)
+        ]);
+        return { attempts: attemptsRes.rows, total: countRes.rows[0].total as number };
+    },
+
+    /**
+     * Origens da questão (todas as provas/alunos/jobs em que apareceu)
+     */
+    async getQuestionProvenance(questionId: string) {
+        const { rows } = await pool.query(`
+            SELECT "userId", "jobId", year, "examId", "examName", "questionLabel", "scrapedAt"
+            FROM "QuestionProvenance"
+            WHERE "questionId" = $1
+            ORDER BY "scrapedAt"
+        `, [questionId]);
+        return rows;
+    },
+
+    /**
+     * Questões gravadas (ou reconfirmadas) por um job, para rastrear importações ruins
+     */
+    async listQuestionsByJob(jobId: string, limit: number, offset: number) {
+        const [questionsRes, countRes] = await Promise.all([
+            pool.query(`
+                SELECT p."questionId", q.title, p.year, p."examId", p."examName", p."questionLabel", p."scrapedAt"
+                FROM "QuestionProvenance" p
+                JOIN "Question" q ON q.id = p."questionId"
+                WHERE p."jobId" = $1
+                ORDER BY p."scrapedAt"
+                LIMIT $2 OFFSET $3
+            `, [jobId, limit, offset]),
+            pool.query(`SELECT COUNT(*)::int AS total FROM "QuestionProvenance" WHERE "jobId" = $1`, [jobId])
+        ]);
+        return { questions: questionsRes.rows, total: countRes.rows[0].total as number };
+    },
+
+    /**
+     * Recalcula "User".reputation a partir do livro. Sem apply, só lista as divergências.
+     */
+    async reconcileReputation(apply: boolean) {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            const { rows } = await client.query(`
+                SELECT u.id AS "userId", u.reputation AS "current", COALESCE(l.total, 0)::int AS "ledger"
+                FROM "User" u
+                LEFT JOIN (
+                    SELECT "userId", SUM(amount) AS total FROM "ReputationLedger" GROUP BY "userId"
+                ) l ON l."userId" = u.id
+                WHERE u.reputation <> COALESCE(l.total, 0)
+                ORDER BY u.id
+                FOR UPDATE OF u
+            `);
+
+            if (apply) {
+                for (const row of rows) {
+                    await client.query(`UPDATE "User" SET reputation = $2 WHERE id = $1`, [row.userId, row.ledger]);
+                }
+            }
+
+            await client.query(apply ? 'COMMIT' : 'ROLLBACK');
+            return rows as { userId: string; current: number; ledger: number }[];
+        } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+        } finally {
+            client.release();
+        }
+    },
+
+    /**
+     * Passo 3: Salva o Histórico de Raspagem.
+     * Recapturar a prova atualiza os dados do título (linhas antigas foram gravadas antes de eles existirem).
+     */
+    async saveScrapeHistory(userId: string, year: string, examId: string, examName: string, examTitle?: ExamTitle) {
+        try {
+            await pool.query(`
+                INSERT INTO "ScrapeHistory" (id, "userId", year, "examId", "examName", "courseCode", "subjectName", "examPeriod", bimester, "assessmentType", "completedAt")
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+                ON CONFLICT ("userId", "examId") DO UPDATE
+                SET "examName" = EXCLUDED."examName", "courseCode" = EXCLUDED."courseCode", "subjectName" = EXCLUDED."subjectName",
+                    "examPeriod" = EXCLUDED."examPeriod", bimester = EXCLUDED.bimester, "assessmentType" = EXCLUDED."assessmentType",
+                    "completedAt" = NOW()
+            `, [createId(), userId, year, examId, examName, examTitle?.courseCode || null, examTitle?.subjectName || null,
+                examTitle?.period || null, examTitle?.bimester ?? null, examTitle?.assessmentType || null]);
+        } catch (e) {
+            console.error('Failed to save scrape history:', e);
+        }
+    },
+
+    /**
+     * Sessão autenticada (cifrada) ainda válida do usuário para o driver
+     */
+    async getScraperSession(userId: string, driver: string, login: string): Promise<string | null> {
+        try {
+            const { rows } = await pool.query(`
+                SELECT state FROM "ScraperSession"
+                WHERE "userId" = $1 AND driver = $2 AND login = $3 AND "expiresAt" > NOW()
+            `, [userId, driver, login]);
+            return rows[0]?.state || null;
+        } catch (e) {
+            console.error('Failed to get scraper session:', e);
+            return null;
+        }
+    },
+
+    /**
+     * Salva (ou renova) a sessão cifrada do usuário
+     */
+    async saveScraperSession(userId: string, driver: string, login: string, encryptedState: string, ttlMs: number) {
+        try {
+            await pool.query(`
+                INSERT INTO "ScraperSession" ("userId", driver, login, state, "expiresAt", "createdAt", "updatedAt")
+                VALUES ($1, $2, $3, $4, NOW() + ($5 * INTERVAL '1 millisecond'), NOW(), NOW())
+                ON CONFLICT ("userId", driver) DO UPDATE
+                SET login = EXCLUDED.login, state = EXCLUDED.state, "expiresAt" = EXCLUDED."expiresAt", "updatedAt" = NOW()
+            `, [userId, driver, login, encryptedState, ttlMs]);
+        } catch (e) {
+            console.error('Failed to save scraper session:', e);
+        }
+    },
+
+    /**
+     * Descarta a sessão (recusada pelo AVA ou ilegível)
+     */
+    async deleteScraperSession(userId: string, driver: string) {
+        try {
+            await pool.query(`DELETE FROM "ScraperSession" WHERE "userId" = $1 AND driver = $2`, [userId, driver]);
+        } catch (e) {
+            console.error('Failed to delete scraper session:', e);
+        }
+    },
+
+    /**
+     * Busca os exames já finalizados pelo usuário
+     */
+    async getUserIgnoredExams(userId: string): Promise<string[]> {
+        try {
+            const { rows } = await pool.query(`
+                SELECT "examName" FROM "ScrapeHistory" WHERE "userId" = $1
+            `, [userId]);
+            return rows.map((r: any) => r.examName);
+        } catch (e) {
+            console.error('Failed to get user ignored exams:', e);
+            return [];
+        }
+    },
+
+    /**
+     * Devolve para PENDING os jobs PROCESSING cujo lease expirou (worker morto/travado).
+     * Jobs antigos sem lease usam o critério legado de 30 minutos sem atualização.
+     */
+    async reclaimExpiredLeases() {
+        try {
+            // Cada claim já contou uma tentativa: se esgotou, o job não volta para a fila
+            const res = await pool.query(`
+                UPDATE "ImportJob"
+                SET status = CASE WHEN attempts >= "maxAttempts" THEN 'DEAD' ELSE 'PENDING' END,
+                    "lastError" = 'Lease expirado: worker ' || COALESCE("workerId", 'desconhecido') || ' parou de responder',
+                    "errorClass" = 'INTERNAL', "errorStep" = 'WORKER',
+                    "updatedAt" = NOW(), "leaseReclaimedAt" = NOW()
+                WHERE status = 'PROCESSING'
+                  AND COALESCE("leaseExpiresAt", "updatedAt" + INTERVAL '30 minutes') < NOW()
+                RETURNING id, "workerId", status
+            `);
+
+            if (res.rows.length > 0) {
+                const summary = res.rows.map((r: any) => `${r.id} (${r.workerId || 'sem worker'} -> ${r.status})`).join(', ');
+                console.log(`[Worker Supervisor] Reclaimed ${res.rows.length} job(s) with expired lease: ${summary}`);
+            }
+        } catch (e) {
+            console.error('Failed to reclaim expired leases:', e);
+        }
+    }
+
+};
+
@@ -0,0 +1,22 @@
+import { PlaywrightDriver } from './playwrightDriver';
+import { SeleniumDriver } from './seleniumDriver';
+import { getSelectorProfile, SelectorProfile } from './selectorProfile';
+import { DRIVER_NAMES, DriverName, ScraperDriver } from './types';
+
+export * from './types';
+export * from './selectorProfile';
+
+// Backend padrão quando o job não escolhe um
+export const DEFAULT_DRIVER: DriverName = DRIVER_NAMES.includes(process.env.SCRAPER_DRIVER as DriverName)
+    ? process.env.SCRAPER_DRIVER as DriverName
+    : 'playwright';
+
+export function createScraperDriver(name: DriverName, environment: string, profile: SelectorProfile = getSelectorProfile()): ScraperDriver {
+    switch (name) {
+        case 'selenium':
+            return new SeleniumDriver(environment, profile);
+        case 'playwright':
+        default:
+            return new PlaywrightDriver(environment, profile);
+    }
+}
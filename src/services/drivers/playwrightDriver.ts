@@ -0,0 +1,307 @@
+import { chromium, Browser, BrowserContextOptions, Page } from 'playwright';
+import { z } from "zod";
+import { InvalidCredentialsError, LayoutChangedError } from '../../utils/errors';
+import { DEFAULT_SELECTOR_PROFILE, SelectorProfile } from './selectorProfile';
+import { FetchedResource, QuestionPage, ScraperDriver, SelectOption } from './types';
+
+type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+// Sessão corrompida vira contexto limpo (login completo)
+const parseStorageState = (session?: string | null): StorageState | undefined => {
+    if (!session) return undefined;
+    try {
+        return JSON.parse(session);
+    } catch (e) {
+        console.warn('⚠️ Sessão salva ilegível, ignorando.');
+        return undefined;
+    }
+};
+
+export class PlaywrightDriver implements ScraperDriver {
+    readonly name = 'playwright' as const;
+
+    private browser: Browser | null = null;
+    private page: Page | null = null;
+    // Aba do Sistema de Provas (popup) ou a própria página, se não abrir popup
+    private activePage: Page | null = null;
+
+    private readonly selectors: SelectorProfile['selectors'];
+    private readonly questionPattern: RegExp;
+
+    constructor(private readonly environment: string, private readonly profile: SelectorProfile = DEFAULT_SELECTOR_PROFILE) {
+        this.selectors = profile.selectors;
+        this.questionPattern = new RegExp(profile.flow.questionButtonPattern);
+    }
+
+    private get current(): Page {
+        const page = this.activePage || this.page;
+        if (!page) throw new Error('Driver Playwright não iniciado.');
+        return page;
+    }
+
+    async launch(session?: string | null) {
+        this.browser = await chromium.launch({
+            headless: this.environment !== 'dev', // Use headless in production/WSL usually, or false for debug. 
+            // Playwright handles headless much better.
+            args: [
+                '--no-sandbox',
+                '--disable-setuid-sandbox',
+                '--disable-dev-shm-usage',
+                '--disable-gpu',
+                '--window-size=1920,1080',
+                '--disable-blink-features=AutomationControlled',
+                '--disable-popup-blocking',
+            ]
+        });
+
+        // Create context with specific user agent
+        const context = await this.browser.newContext({
+            userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            viewport: { width: 1920, height: 1080 },
+            locale: 'pt-BR',
+            timezoneId: 'America/Sao_Paulo',
+            storageState: parseStorageState(session)
+        });
+
+        this.page = await context.newPage();
+        this.activePage = null;
+
+        // Optimization - Block Resources via Route
+        await this.page.route('**/*', (route) => {
+            const resourceType = route.request().resourceType();
+            if (['image', 'font'].includes(resourceType)) {
+                route.abort();
+            } else {
+                route.continue();
+            }
+        });
+    }
+
+    async open(url: string) {
+        await this.current.goto(url, { waitUntil: 'networkidle' });
+    }
+
+    async isLoggedIn(): Promise<boolean> {
+        return this.current.locator(this.selectors.home.examSystemButton)
+            .waitFor({ state: 'attached', timeout: 10000 })
+            .then(() => true)
+            .catch(() => false);
+    }
+
+    async exportSession(): Promise<string | null> {
+        if (!this.page) return null;
+        return JSON.stringify(await this.page.context().storageState());
+    }
+
+    async login(email: string, password: string) {
+        const page = this.current;
+        const { login, home } = this.selectors;
+
+        const isValidEmail = z.string().email().safeParse(email).success;
+        if (!isValidEmail) {
+            await page.locator(login.username).fill(email);
+        } else {
+            await page.locator(login.email).fill(email);
+        }
+
+        await page.locator(login.password).fill(password);
+
+        // Click and wait for navigation - Playwright handles this well, but explicit wait is safer for full page loads
+        await Promise.all([
+            page.waitForURL('**', { waitUntil: 'networkidle' }), // Wait for any URL change/load
+            page.locator(login.submit).click(),
+        ]);
+
+        // Optional stability delay
+        await page.waitForTimeout(5000);
+
+        if (isValidEmail) {
+            await page.locator(login.ssoPassword).fill(password);
+            await page.locator(login.ssoSubmit).first().click();
+        }
+
+        // Se o botão não aparece e o formulário de senha continua na tela, o login foi recusado
+        const btnProvas = page.locator(home.examSystemButton);
+        const isLoggedIn = await btnProvas.waitFor({ state: 'attached', timeout: 30000 }).then(() => true).catch(() => false);
+        if (!isLoggedIn) {
+            const stillOnLogin = await page.locator(login.password).or(page.locator(login.ssoPassword)).first().isVisible().catch(() => false);
+            if (stillOnLogin) throw new InvalidCredentialsError();
+        }
+    }
+
+    async openExamSystem() {
+        const page = this.current;
+        const btnProvas = page.locator(this.selectors.home.examSystemButton);
+
+        // O force: true é vital aqui porque o RichFaces as vezes coloca spans transparentes em cima dos botões.
+        console.log('✅ Botão encontrado via seletor. Clicando...');
+
+        // Tratamento de Nova Aba (Popup)
+        const [newPage] = await Promise.all([
+            page.context().waitForEvent('page', { timeout: 10000 }).catch(() => null),
+            btnProvas.click({ force: true })
+        ]);
+
+        if (newPage) await newPage.waitForLoadState('domcontentloaded');
+        else await page.waitForLoadState('networkidle');
+
+        this.activePage = newPage || page;
+        console.log('📍 URL Pós-clique:', this.activePage.url());
+    }
+
+    async openEvaluations() {
+        const activePage = this.current;
+
+        const { examSystem } = this.selectors;
+
+        const menuResultados = activePage.locator(examSystem.resultsMenu).first();
+        await menuResultados.waitFor({ state: 'visible' });
+        await menuResultados.hover();
+
+        await menuResultados.dispatchEvent('mouseenter');
+        await menuResultados.dispatchEvent('mouseover');
+
+        const linkAvaliacoes = activePage.locator(examSystem.evaluationsLink).first();
+        await linkAvaliacoes.waitFor({ state: 'attached', timeout: 3000 });
+
+        const hrefAvaliacoes = await linkAvaliacoes.getAttribute('href');
+
+        if (!hrefAvaliacoes) {
+            throw new LayoutChangedError('Href de Avaliações não encontrado', 'OPEN_RESULTS');
+        }
+
+        if (hrefAvaliacoes.startsWith('http') || hrefAvaliacoes.startsWith('/')) {
+            await activePage.goto(hrefAvaliacoes);
+        } else {
+            await linkAvaliacoes.click();
+            await activePage.waitForLoadState('networkidle');
+        }
+    }
+
+    async listYears(): Promise<SelectOption[]> {
+        const yearSelect = this.current.locator(this.selectors.evaluations.yearSelect);
+        await yearSelect.waitFor({ state: 'attached' });
+
+        const options = await yearSelect.locator('option').evaluateAll((options) => {
+            return options.map(opt => ({
+                value: opt.getAttribute('value') || '', // É a URL: runner.php?...
+                label: opt.textContent?.trim() || ''    // Ex: 2021, 2022
+            }));
+        });
+        return options.filter(opt => opt.value !== "" && opt.label !== this.profile.flow.yearPlaceholder);
+    }
+
+    async selectYear(value: string): Promise<boolean> {
+        const activePage = this.current;
+        const yearSelect = activePage.locator(this.selectors.evaluations.yearSelect);
+
+        const currentYearValue = await yearSelect.inputValue();
+        if (currentYearValue !== value) {
+            await Promise.all([
+                activePage.waitForResponse(resp => resp.status() === 200, { timeout: 10000 }).catch(() => { }), // Tenta pegar o request XHR
+                activePage.waitForLoadState('networkidle'),
+                yearSelect.selectOption(value)
+            ]);
+
+            // Pequeno delay de estabilidade para garantir que o JS do select de Provas rodou
+            await activePage.waitForTimeout(5000);
+        }
+
+        return (await yearSelect.inputValue()) === value;
+    }
+
+    async listExams(): Promise<SelectOption[]> {
+        const examSelect = this.current.locator(this.selectors.evaluations.examSelect);
+        await examSelect.waitFor({ state: 'visible' });
+
+        const emptyText = this.profile.flow.emptyExamText.toLowerCase();
+        const options = await examSelect.locator('option').evaluateAll((options) => {
+            return options.map(opt => ({
+                value: opt.getAttribute('value') || '',
+                label: opt.textContent?.trim() || ''
+            }));
+        });
+        // Filtra a opção padrão "Nenhum registro encontrado" ou vazias
+        return options.filter(opt => opt.value !== "" && !opt.label.toLowerCase().includes(emptyText));
+    }
+
+    async selectExam(value: string) {
+        const activePage = this.current;
+        await Promise.all([
+            activePage.waitForLoadState('networkidle', { timeout: 120000 }),
+            activePage.locator(this.selectors.evaluations.examSelect).selectOption(value, { timeout: 120000 })
+        ]);
+
+        await activePage.waitForTimeout(5500);
+    }
+
+    private questionButtons() {
+        return this.current.locator(this.selectors.evaluations.questionButton).filter({ hasText: this.questionPattern });
+    }
+
+    async waitForQuestions(): Promise<boolean> {
+        return this.questionButtons().first()
+            .waitFor({ state: 'visible', timeout: 10000 })
+            .then(() => true)
+            .catch(() => false);
+    }
+
+    async countQuestions(): Promise<number> {
+        return this.questionButtons().count();
+    }
+
+    async openQuestion(index: number): Promise<QuestionPage | null> {
+        const activePage = this.current;
+        const currentButtons = await this.questionButtons().all();
+
+        // Verifica se o botão existe
+        if (index >= currentButtons.length) return null;
+
+        const button = currentButtons[index];
+        const label = await button.innerText(); // Ex: "Q01"
+
+        await activePage.waitForTimeout(3500);
+
+        // Clicar e esperar navegação
+        await Promise.all([
+            activePage.waitForLoadState('networkidle'),
+            button.click()
+        ]);
+
+        await activePage.waitForTimeout(1500);
+
+        const statementEl = activePage.locator(this.selectors.question.statement).first();
+        try {
+            await statementEl.waitFor({ state: 'visible', timeout: 15000 });
+        } catch (e) {
+            console.log(`⚠️ Enunciado não carregou para a questão ${label}. Tentando clicar novamente.`);
+            await button.click({ force: true });
+            await activePage.waitForTimeout(2000);
+            await statementEl.waitFor({ state: 'visible', timeout: 10000 });
+        }
+
+        return { label, html: await activePage.content(), url: activePage.url() };
+    }
+
+    async fetchResource(url: string): Promise<FetchedResource> {
+        // Requisição pelo contexto: usa os cookies da sessão e não passa pelo bloqueio de imagens do page.route
+        const response = await this.current.context().request.get(url, { timeout: 30000 });
+        if (!response.ok()) {
+            throw new Error(`Falha ao baixar ${url}: HTTP ${response.status()}`);
+        }
+        return {
+            data: await response.body(),
+            contentType: response.headers()['content-type'] || 'application/octet-stream'
+        };
+    }
+
+    async close() {
+        const browser = this.browser;
+        this.browser = null;
+        this.page = null;
+        this.activePage = null;
+        if (browser) {
+            await browser.close().catch(() => { /* Já fechado */ });
+        }
+    }
+}
@@ -0,0 +1,186 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { DEFAULT_QUESTION_SELECTORS } from '../../parsers/questionPage';
+
+/**
+ * Perfil declarativo de seletores e do fluxo do AVA.
+ * Seletores começando com "//" ou "xpath=" são XPath; os demais são CSS.
+ * Os dois drivers leem daqui, então um seletor quebrado pode ser corrigido
+ * apontando SELECTOR_PROFILE_PATH para um JSON, sem novo deploy.
+ */
+
+// Versão do formato do arquivo; muda só quando a estrutura do perfil mudar
+export const SELECTOR_PROFILE_SCHEMA_VERSION = 1;
+
+const selector = z.string().trim().min(1);
+
+const selectorProfileSchema = z.object({
+    schemaVersion: z.literal(SELECTOR_PROFILE_SCHEMA_VERSION),
+    // Revisão do perfil (ex: data da mudança de layout do AVA)
+    version: z.string().min(1),
+    selectors: z.object({
+        login: z.object({
+            username: selector,
+            email: selector,
+            password: selector,
+            submit: selector,
+            // Segunda etapa do login por e-mail (SSO)
+            ssoPassword: selector,
+            ssoSubmit: selector
+        }),
+        home: z.object({
+            examSystemButton: selector
+        }),
+        examSystem: z.object({
+            resultsMenu: selector,
+            evaluationsLink: selector
+        }),
+        evaluations: z.object({
+            yearSelect: selector,
+            examSelect: selector,
+            questionButton: selector
+        }),
+        question: z.object({
+            statement: selector,
+            alternatives: selector,
+            justification: selector,
+            images: selector
+        })
+    }),
+    flow: z.object({
+        // Texto do botão de questão (ex: "Q01")
+        questionButtonPattern: z.string().min(1).refine(p => {
+            try { new RegExp(p); return true; } catch (e) { return false; }
+        }, 'Regex inválida'),
+        yearPlaceholder: z.string(),
+        emptyExamText: z.string()
+    })
+});
+
+export type SelectorProfile = z.infer<typeof selectorProfileSchema>;
+
+export const DEFAULT_SELECTOR_PROFILE: SelectorProfile = {
+    schemaVersion: SELECTOR_PROFILE_SCHEMA_VERSION,
+    version: 'default',
+    selectors: {
+        login: {
+            username: '#form\\:usuario',
+            email: '#form\\:email',
+            password: '#form\\:senha',
+            submit: '#form\\:loginBtn\\:loginBtn',
+            ssoPassword: '#password',
+            ssoSubmit: '//button[contains(., "Entrar")]'
+        },
+        home: {
+            examSystemButton: 'a[id$="botaoAcessoSistemaProvasMestreGR"]'
+        },
+        examSystem: {
+            resultsMenu: '//span[contains(text(), "Resultados")]',
+            evaluationsLink: '//a[contains(text(), "Avaliações")]'
+        },
+        evaluations: {
+            yearSelect: '//h4[contains(., "Ano letivo:")]/../following-sibling::div//select',
+            examSelect: 'select[name="PROVA"]',
+            questionButton: 'button'
+        },
+        question: { ...DEFAULT_QUESTION_SELECTORS }
+    },
+    flow: {
+        questionButtonPattern: '^Q\\d+',
+        yearPlaceholder: 'SELECIONE ANO',
+        emptyExamText: 'nenhum registro'
+    }
+};
+
+/**
+ * Sobrescrita parcial: só precisa trazer as versões e os seletores alterados
+ */
+const selectorProfileOverrideSchema = z.object({
+    schemaVersion: z.literal(SELECTOR_PROFILE_SCHEMA_VERSION),
+    version: z.string().min(1),
+    selectors: z.object({
+        login: selectorProfileSchema.shape.selectors.shape.login.partial(),
+        home: selectorProfileSchema.shape.selectors.shape.home.partial(),
+        examSystem: selectorProfileSchema.shape.selectors.shape.examSystem.partial(),
+        evaluations: selectorProfileSchema.shape.selectors.shape.evaluations.partial(),
+        question: selectorProfileSchema.shape.selectors.shape.question.partial()
+    }).partial().default({}),
+    flow: selectorProfileSchema.shape.flow.partial().default({})
+});
+
+type SelectorGroup = keyof SelectorProfile['selectors'];
+
+export function isXPath(sel: string): boolean {
+    return sel.startsWith('//') || sel.startsWith('(//') || sel.startsWith('xpath=');
+}
+
+/**
+ * XPath sem o prefixo "xpath=" do Playwright
+ */
+export function xpathExpression(sel: string): string {
+    return sel.startsWith('xpath=') ? sel.slice('xpath='.length) : sel;
+}
+
+export function mergeSelectorProfile(raw: unknown): SelectorProfile {
+    const override = selectorProfileOverrideSchema.parse(raw);
+    const base = DEFAULT_SELECTOR_PROFILE;
+    const selectors = { ...base.selectors } as Record<SelectorGroup, Record<string, string>>;
+
+    for (const group of Object.keys(base.selectors) as SelectorGroup[]) {
+        selectors[group] = { ...base.selectors[group], ...(override.selectors[group] || {}) };
+    }
+
+    return selectorProfileSchema.parse({
+        schemaVersion: override.schemaVersion,
+        version: override.version,
+        selectors,
+        flow: { ...base.flow, ...override.flow }
+    });
+}
+
+let cached: { path: string; mtimeMs: number; profile: SelectorProfile } | null = null;
+
+/**
+ * Perfil em vigor. O arquivo de SELECTOR_PROFILE_PATH é relido quando muda,
+ * então cada job novo já usa a correção. Se o arquivo estiver inválido,
+ * mantém o último perfil válido (ou o padrão).
+ */
+export function getSelectorProfile(path = process.env.SELECTOR_PROFILE_PATH): SelectorProfile {
+    if (!path) return DEFAULT_SELECTOR_PROFILE;
+
+    try {
+        const { mtimeMs } = fs.statSync(path);
+        if (cached && cached.path === path && cached.mtimeMs === mtimeMs) return cached.profile;
+
+        const profile = mergeSelectorProfile(JSON.parse(fs.readFileSync(path, 'utf8')));
+        cached = { path, mtimeMs, profile };
+        console.log(`🧭 Perfil de seletores carregado: ${path} (versão ${profile.version})`);
+        return profile;
+    } catch (error: any) {
+        const fieldErrors = error instanceof z.ZodError ? JSON.stringify(z.flattenError(error).fieldErrors) : error.message;
+        console.error(`❌ Perfil de seletores inválido em ${path}: ${fieldErrors}`);
+        return cached?.profile || DEFAULT_SELECTOR_PROFILE;
+    }
+}
+
+/**
+ * Autoverificação de inicialização: lista cada seletor do perfil em vigor
+ * e marca os que vieram da sobrescrita.
+ */
+export function describeSelectorProfile(profile: SelectorProfile = getSelectorProfile()): string[] {
+    const lines = [`Perfil de seletores versão ${profile.version} (formato ${profile.schemaVersion})`];
+
+    for (const [group, entries] of Object.entries(profile.selectors) as [SelectorGroup, Record<string, string>][]) {
+        const defaults = DEFAULT_SELECTOR_PROFILE.selectors[group] as Record<string, string>;
+        for (const [key, value] of Object.entries(entries)) {
+            const origin = value === defaults[key] ? 'padrão' : 'sobrescrito';
+            lines.push(`  ${group}.${key} [${isXPath(value) ? 'xpath' : 'css'}, ${origin}]: ${value}`);
+        }
+    }
+    for (const [key, value] of Object.entries(profile.flow)) {
+        const origin = value === (DEFAULT_SELECTOR_PROFILE.flow as Record<string, string>)[key] ? 'padrão' : 'sobrescrito';
+        lines.push(`  flow.${key} [${origin}]: ${value}`);
+    }
+
+    return lines;
+}
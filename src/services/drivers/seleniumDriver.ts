@@ -0,0 +1,320 @@
+import { Builder, By, IWebDriverOptionsCookie, until, WebDriver, WebElement } from 'selenium-webdriver';
+import { Options as ChromeOptions } from 'selenium-webdriver/chrome';
+import { z } from "zod";
+import { InvalidCredentialsError, LayoutChangedError } from '../../utils/errors';
+import { DEFAULT_SELECTOR_PROFILE, isXPath, SelectorProfile, xpathExpression } from './selectorProfile';
+import { FetchedResource, QuestionPage, ScraperDriver, SelectOption } from './types';
+
+// Seletor do perfil (CSS ou XPath) no formato do Selenium
+const by = (sel: string) => isXPath(sel) ? By.xpath(xpathExpression(sel)) : By.css(sel);
+
+export class SeleniumDriver implements ScraperDriver {
+    readonly name = 'selenium' as const;
+
+    private driver: WebDriver | null = null;
+    // Cookies da sessão salva; só podem ser aplicados depois de abrir o domínio
+    private pendingCookies: IWebDriverOptionsCookie[] | null = null;
+
+    private readonly selectors: SelectorProfile['selectors'];
+    private readonly questionPattern: RegExp;
+
+    constructor(private readonly environment: string, private readonly profile: SelectorProfile = DEFAULT_SELECTOR_PROFILE) {
+        this.selectors = profile.selectors;
+        this.questionPattern = new RegExp(profile.flow.questionButtonPattern);
+    }
+
+    private get current(): WebDriver {
+        if (!this.driver) throw new Error('Driver Selenium não iniciado.');
+        return this.driver;
+    }
+
+    async launch(session?: string | null) {
+        this.pendingCookies = null;
+        if (session) {
+            try {
+                this.pendingCookies = JSON.parse(session);
+            } catch (e) {
+                console.warn('⚠️ Sessão salva ilegível, ignorando.');
+            }
+        }
+
+        const options = new ChromeOptions();
+        if (this.environment !== 'dev') options.addArguments('--headless=new');
+        options.addArguments('--no-sandbox');
+        options.addArguments('--disable-dev-shm-usage');
+        options.addArguments('--disable-gpu');
+        options.addArguments('user-agent=Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+        options.addArguments('window-size=1280,720');
+
+        this.driver = await new Builder()
+            .forBrowser('chrome')
+            .setChromeOptions(options)
+            .build();
+    }
+
+    async open(url: string) {
+        const driver = this.current;
+        await driver.get(url);
+
+        if (this.pendingCookies) {
+            for (const cookie of this.pendingCookies) {
+                await driver.manage().addCookie(cookie).catch(() => { /* Cookie de outro domínio */ });
+            }
+            this.pendingCookies = null;
+            await driver.get(url);
+        }
+    }
+
+    async isLoggedIn(): Promise<boolean> {
+        try {
+            await this.current.wait(until.elementLocated(by(this.selectors.home.examSystemButton)), 10000);
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    async exportSession(): Promise<string | null> {
+        if (!this.driver) return null;
+        return JSON.stringify(await this.driver.manage().getCookies());
+    }
+
+    async login(email: string, password: string) {
+        const driver = this.current;
+        const { login, home } = this.selectors;
+        const isValidEmail = z.string().email().safeParse(email).success;
+
+        // Wait for form to be present
+        await driver.wait(until.elementLocated(by(login.submit)), 15000);
+
+        if (!isValidEmail) {
+            await driver.findElement(by(login.username)).sendKeys(email);
+        } else {
+            await driver.findElement(by(login.email)).sendKeys(email);
+        }
+
+        await driver.findElement(by(login.password)).sendKeys(password);
+        await driver.findElement(by(login.submit)).click();
+
+        // Login por e-mail passa pelo SSO: a senha é pedida de novo na segunda tela
+        if (isValidEmail) {
+            const ssoPassword = await driver.wait(until.elementLocated(by(login.ssoPassword)), 20000)
+                .catch(async (e) => {
+                    // Sem a tela do SSO e com o formulário inicial ainda visível: e-mail/senha recusados
+                    const firstStep = await driver.findElements(by(login.password));
+                    if (firstStep.length > 0 && await firstStep[0].isDisplayed().catch(() => false)) throw new InvalidCredentialsError();
+                    throw e;
+                });
+            await driver.wait(until.elementIsVisible(ssoPassword), 10000);
+            await ssoPassword.sendKeys(password);
+            const ssoSubmit = await driver.findElements(by(login.ssoSubmit));
+            if (ssoSubmit.length === 0) throw new Error(`Botão do SSO não encontrado (${login.ssoSubmit})`);
+            await ssoSubmit[0].click();
+        }
+
+        // Se o botão não aparece e o formulário de senha continua na tela, o login foi recusado
+        try {
+            await driver.wait(until.elementLocated(by(home.examSystemButton)), 30000);
+        } catch (e) {
+            const passwordFields = [
+                ...await driver.findElements(by(login.password)),
+                ...await driver.findElements(by(login.ssoPassword))
+            ];
+            for (const field of passwordFields) {
+                if (await field.isDisplayed().catch(() => false)) throw new InvalidCredentialsError();
+            }
+            throw e;
+        }
+
+        // Espera estabilidade
+        await driver.sleep(5000);
+    }
+
+    async openExamSystem() {
+        const driver = this.current;
+
+        const sistemaProvasBtn = await driver.findElement(by(this.selectors.home.examSystemButton));
+
+        // Scroll into view - center to avoid headers
+        await driver.executeScript("arguments[0].scrollIntoView({block: 'center'});", sistemaProvasBtn);
+        await driver.sleep(1000);
+
+        // Handle Popup
+        const existingWindows = await driver.getAllWindowHandles();
+
+        // Try robust click strategy
+        try {
+            await sistemaProvasBtn.click();
+        } catch (e) {
+            console.log("⚠️ Normal click failed/blocked. Attempting JS Click (force)...");
+            await driver.executeScript("arguments[0].click();", sistemaProvasBtn);
+        }
+
+        // Wait for new window
+        let newWindowHandle: string | null = null;
+        try {
+            await driver.wait(async () => {
+                const handles = await driver.getAllWindowHandles();
+                const newHandles = handles.filter(h => !existingWindows.includes(h));
+                if (newHandles.length > 0) {
+                    newWindowHandle = newHandles[0];
+                    return true;
+                }
+                return false;
+            }, 30000);
+        } catch (e) {
+            console.log('⚠️ Nenhum popup detectado pelo Selenium, assumindo navegação na mesma aba.');
+        }
+
+        if (newWindowHandle) {
+            await driver.switchTo().window(newWindowHandle);
+        }
+
+        console.log('📍 URL Pós-clique:', await driver.getCurrentUrl());
+    }
+
+    async openEvaluations() {
+        const driver = this.current;
+        const { examSystem } = this.selectors;
+
+        // Wait for Resultados logic
+        const menuResultados = await driver.wait(until.elementLocated(by(examSystem.resultsMenu)), 30000);
+        await driver.wait(until.elementIsVisible(menuResultados), 10000);
+
+        // Hover logic in Selenium
+        await driver.actions({ async: true }).move({ origin: menuResultados }).perform();
+
+        // Click Avaliações
+        const linkAvaliacoes = await driver.wait(until.elementLocated(by(examSystem.evaluationsLink)), 5000);
+        const hrefAvaliacoes = await linkAvaliacoes.getAttribute('href');
+
+        if (!hrefAvaliacoes) {
+            throw new LayoutChangedError('Href de Avaliações não encontrado', 'OPEN_RESULTS');
+        }
+
+        if (hrefAvaliacoes.startsWith('http') || hrefAvaliacoes.startsWith('/')) {
+            await driver.get(hrefAvaliacoes);
+        } else {
+            await linkAvaliacoes.click();
+        }
+    }
+
+    private async readOptions(select: WebElement): Promise<SelectOption[]> {
+        const options = await select.findElements(By.tagName('option'));
+        const result: SelectOption[] = [];
+        for (const opt of options) {
+            result.push({
+                value: (await opt.getAttribute('value')) || '',
+                label: (await opt.getText()).trim()
+            });
+        }
+        return result;
+    }
+
+    async listYears(): Promise<SelectOption[]> {
+        const yearSelect = await this.current.wait(until.elementLocated(by(this.selectors.evaluations.yearSelect)), 20000);
+        const options = await this.readOptions(yearSelect);
+        return options.filter(opt => opt.value !== "" && opt.label !== this.profile.flow.yearPlaceholder);
+    }
+
+    async selectYear(value: string): Promise<boolean> {
+        const driver = this.current;
+        const yearSelector = by(this.selectors.evaluations.yearSelect);
+
+        // Re-locate select to avoid stale element
+        const yearSelect = await driver.findElement(yearSelector);
+        if ((await yearSelect.getAttribute('value')) !== value) {
+            await yearSelect.findElement(By.css(`option[value="${value}"]`)).click();
+            // Selenium wait for reload is tricky; simpler stability wait
+            await driver.sleep(3000);
+        }
+
+        const verified = await driver.findElement(yearSelector).getAttribute('value');
+        return verified === value;
+    }
+
+    async listExams(): Promise<SelectOption[]> {
+        const examSelect = await this.current.wait(until.elementLocated(by(this.selectors.evaluations.examSelect)), 10000);
+        const emptyText = this.profile.flow.emptyExamText.toLowerCase();
+        const options = await this.readOptions(examSelect);
+        return options.filter(opt => opt.value !== "" && !opt.label.toLowerCase().includes(emptyText));
+    }
+
+    async selectExam(value: string) {
+        const driver = this.current;
+        const examSelect = await driver.findElement(by(this.selectors.evaluations.examSelect));
+        await examSelect.findElement(By.css(`option[value="${value}"]`)).click();
+        await driver.sleep(1500);
+    }
+
+    private async questionButtons(): Promise<WebElement[]> {
+        const buttons = await this.current.findElements(by(this.selectors.evaluations.questionButton));
+        const result: WebElement[] = [];
+        for (const btn of buttons) {
+            if (this.questionPattern.test(await btn.getText())) result.push(btn);
+        }
+        return result;
+    }
+
+    async waitForQuestions(): Promise<boolean> {
+        try {
+            await this.current.wait(async () => (await this.questionButtons()).length > 0, 10000);
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    async countQuestions(): Promise<number> {
+        return (await this.questionButtons()).length;
+    }
+
+    async openQuestion(index: number): Promise<QuestionPage | null> {
+        const driver = this.current;
+
+        // Re-fetch buttons to avoid stale reference
+        const buttons = await this.questionButtons();
+        if (index >= buttons.length) return null;
+
+        const button = buttons[index];
+        const label = await button.getText();
+
+        await button.click();
+        await driver.sleep(1500); // Wait for AJAX load of question content
+
+        return { label, html: await driver.getPageSource(), url: await driver.getCurrentUrl() };
+    }
+
+    async fetchResource(url: string): Promise<FetchedResource> {
+        // fetch dentro da página, com os cookies da sessão; o conteúdo volta em base64
+        const result: any = await this.current.executeAsyncScript(`
+            const done = arguments[arguments.length - 1];
+            fetch(arguments[0], { credentials: 'include' })
+                .then(async (res) => {
+                    if (!res.ok) return done({ error: 'HTTP ' + res.status });
+                    const blob = await res.blob();
+                    const reader = new FileReader();
+                    reader.onloadend = () => done({ dataUrl: reader.result, contentType: blob.type });
+                    reader.readAsDataURL(blob);
+                })
+                .catch((e) => done({ error: String(e) }));
+        `, url);
+
+        if (!result || result.error) {
+            throw new Error(`Falha ao baixar ${url}: ${result?.error || 'sem resposta'}`);
+        }
+        const base64 = String(result.dataUrl).split(',')[1] || '';
+        return {
+            data: Buffer.from(base64, 'base64'),
+            contentType: result.contentType || 'application/octet-stream'
+        };
+    }
+
+    async close() {
+        const driver = this.driver;
+        this.driver = null;
+        if (driver) {
+            await driver.quit().catch(() => { /* Já fechado */ });
+        }
+    }
+}
@@ -0,0 +1,58 @@
+export type DriverName = 'playwright' | 'selenium';
+
+export const DRIVER_NAMES: DriverName[] = ['playwright', 'selenium'];
+
+export interface SelectOption {
+    value: string;
+    label: string;
+}
+
+export interface FetchedResource {
+    data: Buffer;
+    contentType: string;
+}
+
+export interface QuestionPage {
+    label: string; // Ex: "Q01"
+    html: string;
+    url: string;
+}
+
+/**
+ * Passos de navegação no SEI/AVA que cada backend (Playwright, Selenium) implementa.
+ * A orquestração (anos, provas, checkpoints, cancelamento) fica no ScraperService.
+ */
+export interface ScraperDriver {
+    readonly name: DriverName;
+
+    /** Abre o navegador, opcionalmente com uma sessão exportada por exportSession() */
+    launch(session?: string | null): Promise<void>;
+    /** Abre a página inicial do SEI */
+    open(url: string): Promise<void>;
+    /** Se a página aberta já está autenticada (sessão reaproveitada aceita) */
+    isLoggedIn(): Promise<boolean>;
+    /** Login de duas etapas; lança InvalidCredentialsError se o AVA recusar */
+    login(email: string, password: string): Promise<void>;
+    /** Estado autenticado (cookies/storage) serializado, para reaproveitar em outro launch */
+    exportSession(): Promise<string | null>;
+    /** Clica em "Sistema de Provas" e passa a usar a aba aberta (ou a mesma, se não abrir popup) */
+    openExamSystem(): Promise<void>;
+    /** Menu Resultados > Avaliações */
+    openEvaluations(): Promise<void>;
+    /** Opções do select "Ano letivo:" (sem o placeholder) */
+    listYears(): Promise<SelectOption[]>;
+    /** Seleciona o ano; retorna false se o AVA manteve outro ano */
+    selectYear(value: string): Promise<boolean>;
+    /** Opções do select de provas do ano atual */
+    listExams(): Promise<SelectOption[]>;
+    selectExam(value: string): Promise<void>;
+    /** Aguarda os botões Q01.. aparecerem; false se a prova estiver vazia/expirada */
+    waitForQuestions(): Promise<boolean>;
+    countQuestions(): Promise<number>;
+    /** Abre a questão pelo índice e devolve o HTML renderizado; null se o botão não existir */
+    openQuestion(index: number): Promise<QuestionPage | null>;
+    /** Baixa um recurso (ex: imagem da questão) com os cookies da sessão autenticada */
+    fetchResource(url: string): Promise<FetchedResource>;
+    /** Fecha o navegador (idempotente) */
+    close(): Promise<void>;
+}
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface StoredImage {
+    hash: string;       // sha256 do conteúdo
+    url: string;        // Endereço público da cópia armazenada
+    contentType: string;
+    size: number;
+    created: boolean;   // false quando a mesma imagem já estava armazenada
+}
+
+/**
+ * Armazenamento das imagens das questões, endereçado pelo hash do conteúdo:
+ * a mesma imagem em várias questões vira um único arquivo.
+ */
+export interface ImageStorage {
+    put(data: Buffer, contentType: string): Promise<StoredImage>;
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+    'image/bmp': 'bmp'
+};
+
+export const hashImage = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * Backend em disco local. O diretório é servido pelo próprio servidor em IMAGE_PUBLIC_BASE_URL.
+ */
+export class LocalImageStorage implements ImageStorage {
+    constructor(readonly rootDir: string, private readonly publicBaseUrl: string) { }
+
+    async put(data: Buffer, contentType: string): Promise<StoredImage> {
+        const hash = hashImage(data);
+        const type = contentType.split(';')[0].trim().toLowerCase();
+        const fileName = `${hash}.${EXTENSIONS[type] || 'bin'}`;
+
+        // Dois níveis pelo prefixo do hash para não lotar um único diretório
+        const relativePath = path.posix.join(hash.slice(0, 2), fileName);
+        const filePath = path.join(this.rootDir, relativePath);
+
+        let created = false;
+        if (!fs.existsSync(filePath)) {
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            // Escreve em arquivo temporário e renomeia: workers concorrentes nunca leem arquivo pela metade
+            const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+            await fs.promises.writeFile(tmpPath, data);
+            await fs.promises.rename(tmpPath, filePath);
+            created = true;
+        }
+
+        return {
+            hash,
+            url: `${this.publicBaseUrl.replace(/\/$/, '')}/${relativePath}`,
+            contentType: type,
+            size: data.length,
+            created
+        };
+    }
+}
+
+export const IMAGE_STORAGE_BACKEND = process.env.IMAGE_STORAGE_BACKEND || 'local';
+export const IMAGE_STORAGE_DIR = path.resolve(process.env.IMAGE_STORAGE_DIR || 'storage/images');
+// Ex: https://scrapper.exemplo.com/images
+export const IMAGE_PUBLIC_BASE_URL = process.env.IMAGE_PUBLIC_BASE_URL || '';
+
+/**
+ * As URLs ficam gravadas para sempre no Markdown da questão, que o app principal renderiza
+ * em outra origem: só vale endereço absoluto http(s). Devolve o problema, ou null se está ok.
+ */
+export function imagePublicBaseUrlError(url = IMAGE_PUBLIC_BASE_URL): string | null {
+    if (!url) return 'IMAGE_PUBLIC_BASE_URL não configurada';
+    try {
+        const { protocol } = new URL(url);
+        if (protocol !== 'http:' && protocol !== 'https:') return `IMAGE_PUBLIC_BASE_URL precisa ser http(s): ${url}`;
+        return null;
+    } catch {
+        return `IMAGE_PUBLIC_BASE_URL precisa ser um endereço absoluto (ex: https://host/images): ${url}`;
+    }
+}
+
+/**
+ * Backend configurado em IMAGE_STORAGE_BACKEND (hoje só "local")
+ */
+export function createImageStorage(backend = IMAGE_STORAGE_BACKEND): ImageStorage {
+    switch (backend) {
+        case 'local': {
+            const error = imagePublicBaseUrlError();
+            if (error) throw new Error(error);
+            return new LocalImageStorage(IMAGE_STORAGE_DIR, IMAGE_PUBLIC_BASE_URL);
+        }
+        default:
+            throw new Error(`Backend de imagens desconhecido: ${backend}`);
+    }
+}
@@ -0,0 +1,38 @@
+import { EventEmitter } from 'events';
+import { JobLogEntry, JobMetrics } from '../types/job';
+
+export type JobEvent =
+    | { type: 'log'; entry: JobLogEntry }
+    | { type: 'metrics'; metrics: JobMetrics }
+    | { type: 'end'; status: string };
+
+const emitter = new EventEmitter();
+// Cada conexão SSE registra um listener; não há limite prático por job
+emitter.setMaxListeners(0);
+
+/**
+ * Barramento em memória do progresso dos jobs processados neste processo.
+ */
+export const jobEvents = {
+    emitLog(jobId: string, entry: JobLogEntry) {
+        emitter.emit(jobId, { type: 'log', entry } as JobEvent);
+    },
+
+    emitMetrics(jobId: string, metrics: JobMetrics) {
+        emitter.emit(jobId, { type: 'metrics', metrics: { ...metrics } } as JobEvent);
+    },
+
+    emitEnd(jobId: string, status: string) {
+        emitter.emit(jobId, { type: 'end', status } as JobEvent);
+    },
+
+    /**
+     * Registra um listener para o job e devolve a função que o remove
+     */
+    subscribe(jobId: string, listener: (event: JobEvent) => void) {
+        emitter.on(jobId, listener);
+        return () => {
+            emitter.off(jobId, listener);
+        };
+    }
+};
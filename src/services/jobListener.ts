@@ -0,0 +1,93 @@
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import { JOB_NOTIFY_CHANNEL } from './schema';
+
+dotenv.config();
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+let client: Client | null = null;
+let reconnectTimer: NodeJS.Timeout | null = null;
+let reconnectAttempts = 0;
+let isStopped = true;
+let onJobAvailable: (() => void) | null = null;
+
+const scheduleReconnect = () => {
+    if (isStopped || reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    reconnectAttempts++;
+    console.warn(`[JobListener] Reconnecting in ${delay}ms (attempt ${reconnectAttempts})...`);
+
+    reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+    }, delay);
+};
+
+const dropClient = () => {
+    if (!client) return;
+    const current = client;
+    client = null;
+    current.removeAllListeners();
+    // Mantém um handler para erros tardios do socket já descartado
+    current.on('error', () => { });
+    current.end().catch(() => { });
+};
+
+async function connect() {
+    if (isStopped) return;
+
+    const listener = new Client({ connectionString: process.env.DATABASE_URL });
+    client = listener;
+
+    listener.on('notification', (msg) => {
+        if (msg.channel === JOB_NOTIFY_CHANNEL) onJobAvailable?.();
+    });
+    listener.on('error', (err) => {
+        console.error('[JobListener] Connection error:', err.message);
+        dropClient();
+        scheduleReconnect();
+    });
+    listener.on('end', () => {
+        if (client !== listener) return;
+        console.warn('[JobListener] Connection closed.');
+        dropClient();
+        scheduleReconnect();
+    });
+
+    try {
+        await listener.connect();
+        await listener.query(`LISTEN ${JOB_NOTIFY_CHANNEL}`);
+        console.log(`[JobListener] Listening on channel ${JOB_NOTIFY_CHANNEL}`);
+
+        // Notificações emitidas enquanto estávamos desconectados se perderam
+        if (reconnectAttempts > 0) onJobAvailable?.();
+        reconnectAttempts = 0;
+    } catch (e: any) {
+        console.error('[JobListener] Failed to connect:', e.message);
+        if (client === listener) dropClient();
+        scheduleReconnect();
+    }
+}
+
+/**
+ * Mantém uma conexão dedicada em LISTEN e chama o callback a cada job novo/reenfileirado.
+ */
+export function startJobListener(callback: () => void) {
+    onJobAvailable = callback;
+    isStopped = false;
+    reconnectAttempts = 0;
+    connect();
+}
+
+export async function stopJobListener() {
+    isStopped = true;
+    onJobAvailable = null;
+    if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+    }
+    dropClient();
+}
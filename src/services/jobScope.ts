@@ -0,0 +1,84 @@
+import { ExamTitle } from '../parsers/examTitle';
+import { JobScope } from '../types/job';
+
+/**
+ * Regras do escopo do job. Cada função devolve o motivo do pulo, ou null se está no escopo.
+ */
+
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+const yearNumber = (label: string | null) => {
+    const match = label?.match(/(?:19|20)\d{2}/);
+    return match ? Number(match[0]) : null;
+};
+
+const toDate = (iso: string, endOfDay = false) => new Date(`${iso}T${endOfDay ? '23:59:59' : '00:00:00'}Z`);
+
+/**
+ * Intervalo de datas coberto pela prova: o bimestre, se conhecido, senão o ano inteiro
+ */
+function examInterval(year: number, bimester: number | null): [Date, Date] {
+    if (bimester && bimester >= 1 && bimester <= 6) {
+        const startMonth = (bimester - 1) * 2;
+        return [new Date(Date.UTC(year, startMonth, 1)), new Date(Date.UTC(year, startMonth + 2, 0, 23, 59, 59))];
+    }
+    return [new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year, 11, 31, 23, 59, 59))];
+}
+
+function outsideDateWindow(scope: JobScope, year: number | null, bimester: number | null): string | null {
+    const window = scope.dateWindow;
+    if (!window || (!window.from && !window.to) || year === null) return null;
+
+    const [start, end] = examInterval(year, bimester);
+    if (window.from && end < toDate(window.from)) return `antes de ${window.from}`;
+    if (window.to && start > toDate(window.to, true)) return `depois de ${window.to}`;
+    return null;
+}
+
+export function yearOutOfScope(scope: JobScope | null | undefined, yearLabel: string): string | null {
+    if (!scope) return null;
+
+    if (scope.years && scope.years.length > 0 && !scope.years.some(y => normalize(y) === normalize(yearLabel))) {
+        return `ano ${yearLabel} fora da lista (${scope.years.join(', ')})`;
+    }
+
+    const outside = outsideDateWindow(scope, yearNumber(yearLabel), null);
+    return outside ? `ano ${yearLabel} fora da janela de datas (${outside})` : null;
+}
+
+/**
+ * Prova pedida explicitamente em scope.exams (pelo id ou pelo rótulo): é capturada mesmo já estando no histórico
+ */
+export function isRequestedExam(scope: JobScope | null | undefined, examId: string, label: string): boolean {
+    return !!scope?.exams?.some(entry => entry === examId || normalize(entry) === normalize(label));
+}
+
+export function examOutOfScope(scope: JobScope | null | undefined, yearLabel: string, title: ExamTitle, examId: string): string | null {
+    if (!scope) return null;
+
+    if (scope.exams && scope.exams.length > 0 && !isRequestedExam(scope, examId, title.raw)) {
+        return 'prova fora da lista de provas pedidas';
+    }
+
+    const names = [title.courseCode, title.subjectName].filter((n): n is string => !!n).map(normalize);
+    const matches = (list: string[]) => list.some(entry => names.includes(normalize(entry)));
+
+    const allow = scope.subjects?.allow || [];
+    if (allow.length > 0 && !matches(allow)) {
+        return `disciplina ${title.courseCode || title.subjectName || title.raw} fora da lista permitida`;
+    }
+
+    const deny = scope.subjects?.deny || [];
+    if (deny.length > 0 && matches(deny)) {
+        return `disciplina ${title.courseCode || title.subjectName} na lista de exclusão`;
+    }
+
+    if (scope.assessmentTypes && scope.assessmentTypes.length > 0) {
+        if (!title.assessmentType || !scope.assessmentTypes.includes(title.assessmentType)) {
+            return `tipo de avaliação ${title.assessmentType || 'desconhecido'} fora do escopo (${scope.assessmentTypes.join(', ')})`;
+        }
+    }
+
+    const outside = outsideDateWindow(scope, yearNumber(title.year) ?? yearNumber(yearLabel), title.bimester);
+    return outside ? `prova fora da janela de datas (${outside})` : null;
+}
@@ -0,0 +1,104 @@
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import { MIGRATIONS, Migration } from '../migrations';
+import { REQUIRED_COLUMNS } from './schema';
+
+dotenv.config();
+
+// Chave do advisory lock: duas execuções do migrate ao mesmo tempo se enfileiram
+const MIGRATION_LOCK_KEY = 74_310_021;
+
+export interface MigrationResult {
+    applied: Migration[];
+    alreadyApplied: number;
+}
+
+export interface SchemaCheckResult {
+    ok: boolean;
+    missing: string[];          // Ex: "ImportJob"."scope"
+    pendingMigrations: Migration[];
+}
+
+/**
+ * Conexão dedicada (fora do pool): o migrate roda como comando isolado e encerra ao final
+ */
+async function withClient<T>(fn: (client: Client) => Promise<T>): Promise<T> {
+    const client = new Client({ connectionString: process.env.DATABASE_URL });
+    await client.connect();
+    try {
+        return await fn(client);
+    } finally {
+        await client.end().catch(() => { });
+    }
+}
+
+async function appliedVersions(client: Client): Promise<Set<number>> {
+    const { rows } = await client.query(`SELECT to_regclass('"SchemaMigration"') IS NOT NULL AS exists`);
+    if (!rows[0].exists) return new Set();
+
+    const applied = await client.query(`SELECT version FROM "SchemaMigration"`);
+    return new Set(applied.rows.map(row => Number(row.version)));
+}
+
+/**
+ * Aplica, em ordem, as migrações ainda não registradas. Cada uma roda numa transação própria:
+ * se falhar, nada dela fica aplicado e as seguintes não rodam.
+ */
+export async function runMigrations(log: (message: string) => void = console.log): Promise<MigrationResult> {
+    return withClient(async (client) => {
+        await client.query(`SELECT pg_advisory_lock($1)`, [MIGRATION_LOCK_KEY]);
+        try {
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS "SchemaMigration" (
+                    version INTEGER PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    "appliedAt" TIMESTAMP(3) NOT NULL DEFAULT NOW()
+                )
+            `);
+
+            const done = await appliedVersions(client);
+            const pending = MIGRATIONS.filter(m => !done.has(m.version));
+
+            for (const migration of pending) {
+                log(`[Migrate] Aplicando ${migration.version} (${migration.name})...`);
+                try {
+                    await client.query('BEGIN');
+                    for (const statement of migration.statements) {
+                        await client.query(statement);
+                    }
+                    if (migration.run) await migration.run(client);
+                    await client.query(`INSERT INTO "SchemaMigration" (version, name) VALUES ($1, $2)`, [migration.version, migration.name]);
+                    await client.query('COMMIT');
+                } catch (e: any) {
+                    await client.query('ROLLBACK').catch(() => { });
+                    throw new Error(`Migração ${migration.version} (${migration.name}) falhou: ${e.message}`);
+                }
+            }
+
+            return { applied: pending, alreadyApplied: done.size };
+        } finally {
+            await client.query(`SELECT pg_advisory_unlock($1)`, [MIGRATION_LOCK_KEY]).catch(() => { });
+        }
+    });
+}
+
+/**
+ * Confere se o banco tem todas as colunas que o código usa (sem alterar nada)
+ */
+export async function checkSchemaCompatibility(): Promise<SchemaCheckResult> {
+    return withClient(async (client) => {
+        const { rows } = await client.query(`
+            SELECT table_name, column_name FROM information_schema.columns
+            WHERE table_schema = current_schema() AND table_name = ANY($1)
+        `, [Object.keys(REQUIRED_COLUMNS)]);
+
+        const existing = new Set(rows.map(row => `${row.table_name}.${row.column_name}`));
+        const missing = Object.entries(REQUIRED_COLUMNS).flatMap(([table, columns]) =>
+            columns.filter(column => !existing.has(`${table}.${column}`)).map(column => `"${table}"."${column}"`));
+
+        const done = await appliedVersions(client);
+        const pendingMigrations = MIGRATIONS.filter(m => !done.has(m.version));
+
+        return { ok: missing.length === 0, missing, pendingMigrations };
+    });
+}
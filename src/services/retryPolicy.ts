@@ -0,0 +1,28 @@
+import { ScrapeErrorClass } from '../utils/errors';
+
+export type RetryDecision =
+    | { action: 'FAIL' }
+    | { action: 'DEAD' }
+    | { action: 'RETRY'; delayMs: number };
+
+const BASE_BACKOFF_MS = Number(process.env.JOB_RETRY_BASE_MS) || 60000; // 1 minuto
+const MAX_BACKOFF_MS = 60 * 60 * 1000; // 1 hora
+
+/**
+ * Decide o destino de um job que falhou, pela classe do erro:
+ * - credenciais inválidas não são retentadas (FAILED)
+ * - AVA indisponível (inclusive timeouts) e falhas de banco voltam para a fila com backoff exponencial
+ * - layout alterado e erros internos voltam para a fila com espera fixa
+ * - esgotadas as tentativas, o job vai para DEAD
+ */
+export function decideRetry(errorClass: ScrapeErrorClass, attempts: number, maxAttempts: number): RetryDecision {
+    if (errorClass === 'INVALID_CREDENTIALS') return { action: 'FAIL' };
+    if (attempts >= maxAttempts) return { action: 'DEAD' };
+
+    if (errorClass === 'AVA_UNAVAILABLE' || errorClass === 'DB_FAILURE') {
+        const delayMs = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+        return { action: 'RETRY', delayMs };
+    }
+
+    return { action: 'RETRY', delayMs: BASE_BACKOFF_MS };
+}
@@ -0,0 +1,29 @@
+// Canal do LISTEN/NOTIFY que acorda os workers quando há job PENDING
+export const JOB_NOTIFY_CHANNEL = 'import_job_pending';
+
+/**
+ * Colunas que o código deste serviço lê/escreve, por tabela.
+ * Conferidas na inicialização: o schema em si é aplicado por `npm run migrate`
+ * (src/migrations), nunca pelo servidor.
+ */
+export const REQUIRED_COLUMNS: Record<string, string[]> = {
+    User: ['id', 'reputation'],
+    Subject: ['id', 'name', 'color', 'icon'],
+    Question: [
+        'id', 'title', 'text', 'week', 'createdAt', 'updatedAt', 'views', 'isVerified', 'verificationRequested', 'userId', 'subjectId',
+        'questionType', 'expectedAnswer', 'difficulty', 'learningObjective', 'courseCode', 'examPeriod', 'assessmentType', 'fingerprint', 'duplicateOfId'
+    ],
+    Alternative: ['id', 'letter', 'text', 'isCorrect', 'questionId'],
+    Comment: ['id', 'text', 'createdAt', 'isDeleted', 'userId', 'questionId'],
+    ImportJob: [
+        'id', 'userId', 'login', 'password', 'status', 'logs', 'createdAt', 'updatedAt', 'completedAt',
+        'cancelRequestedAt', 'cancelRequestedBy', 'workerId', 'leaseExpiresAt', 'leaseReclaimedAt',
+        'attempts', 'maxAttempts', 'nextRunAt', 'lastError', 'errorClass', 'errorStep', 'checkpoint', 'driver', 'scope'
+    ],
+    ScrapeHistory: ['id', 'userId', 'year', 'examId', 'examName', 'completedAt', 'courseCode', 'subjectName', 'examPeriod', 'bimester', 'assessmentType'],
+    ScraperSession: ['userId', 'driver', 'login', 'state', 'expiresAt', 'createdAt', 'updatedAt'],
+    QuestionAttempt: ['id', 'userId', 'questionId', 'selectedLetters', 'isCorrect', 'createdAt', 'updatedAt'],
+    AnswerConfirmation: ['id', 'questionId', 'userId', 'correctLetters', 'agrees', 'createdAt', 'updatedAt'],
+    QuestionProvenance: ['id', 'questionId', 'userId', 'jobId', 'year', 'examId', 'examName', 'questionLabel', 'scrapedAt'],
+    ReputationLedger: ['id', 'userId', 'amount', 'reason', 'ruleAmount', 'questionId', 'jobId', 'createdAt'],
+};
@@ -0,0 +1,39 @@
+import { db } from './db';
+import { decrypt, encrypt } from '../utils/crypto';
+import { DriverName } from './drivers';
+
+// Validade da sessão salva do AVA (padrão: 6 horas)
+const SESSION_TTL_MS = Number(process.env.SCRAPER_SESSION_TTL_MS) || 6 * 60 * 60 * 1000;
+
+/**
+ * Sessão do AVA de um usuário, cifrada no banco com a mesma chave das senhas
+ */
+export interface SessionStore {
+    load(): Promise<string | null>;
+    save(state: string): Promise<void>;
+    discard(): Promise<void>;
+}
+
+export function createSessionStore(userId: string, driver: DriverName, login: string): SessionStore {
+    return {
+        async load() {
+            const encrypted = await db.getScraperSession(userId, driver, login);
+            if (!encrypted) return null;
+            try {
+                return decrypt(encrypted);
+            } catch (e) {
+                console.warn(`⚠️ Sessão salva de ${userId} ilegível (chave trocada?). Descartando.`);
+                await db.deleteScraperSession(userId, driver);
+                return null;
+            }
+        },
+
+        async save(state: string) {
+            await db.saveScraperSession(userId, driver, login, encrypt(state), SESSION_TTL_MS);
+        },
+
+        async discard() {
+            await db.deleteScraperSession(userId, driver);
+        }
+    };
+}
@@ -0,0 +1,40 @@
+import { SaveQuestionResult } from '../types/question';
+
+// Motivo de cada lançamento no "ReputationLedger"
+export type ReputationReason = 'NEW_QUESTION' | 'NEAR_DUPLICATE' | 'ENRICHMENT' | 'DUPLICATE' | 'OPENING_BALANCE';
+
+const xpFromEnv = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isInteger(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * XP por resultado da captura (configurável por variável de ambiente).
+ * Quase-duplicata aguarda revisão, então por padrão não vale XP; duplicata pura nunca vale.
+ */
+export const XP_RULES: Record<Exclude<ReputationReason, 'OPENING_BALANCE'>, number> = {
+    NEW_QUESTION: xpFromEnv('XP_NEW_QUESTION', 10),
+    NEAR_DUPLICATE: xpFromEnv('XP_NEAR_DUPLICATE', 0),
+    ENRICHMENT: xpFromEnv('XP_ENRICHMENT', 2),
+    DUPLICATE: xpFromEnv('XP_DUPLICATE', 0)
+};
+
+// Teto de XP por usuário por dia (dia do banco, somando todos os jobs); 0 = sem teto
+export const XP_DAILY_CAP = xpFromEnv('XP_DAILY_CAP', 300);
+
+/**
+ * Motivo do lançamento para o resultado de saveScrapedQuestion
+ */
+export function reputationReasonFor(result: Pick<SaveQuestionResult, 'status' | 'merged'>): Exclude<ReputationReason, 'OPENING_BALANCE'> {
+    if (result.status === 'CREATED') return 'NEW_QUESTION';
+    if (result.status === 'NEAR_DUPLICATE') return 'NEAR_DUPLICATE';
+    return result.merged.length > 0 ? 'ENRICHMENT' : 'DUPLICATE';
+}
+
+/**
+ * Quanto da regra cabe no teto diário, dado o que o usuário já ganhou hoje
+ */
+export function applyDailyCap(amount: number, earnedToday: number): number {
+    if (XP_DAILY_CAP === 0) return amount;
+    return Math.max(0, Math.min(amount, XP_DAILY_CAP - earnedToday));
+}
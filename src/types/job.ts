@@ -0,0 +1,71 @@
+import { AssessmentType } from '../parsers/examTitle';
+
+export type JobStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'DEAD';
+
+// Status a partir dos quais o job não recebe mais logs
+export const TERMINAL_STATUSES: JobStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED', 'DEAD'];
+
+export interface JobLogEntry {
+    id: string;
+    time: string;
+    msg: string;
+    type: string;
+}
+
+export interface JobMetrics {
+    found: number;
+    imported: number;   // Questões inseridas (novas e quase-duplicatas)
+    duplicates: number; // Já existiam no banco (não inseridas)
+    merged: number;     // Duplicatas que completaram a questão existente
+    skipped: number;
+    xp: number;
+}
+
+// Interface expected by the frontend
+export interface LogsData {
+    logs: JobLogEntry[];
+    metrics: JobMetrics;
+}
+
+export const emptyLogsData = (): LogsData => ({
+    logs: [],
+    metrics: {
+        found: 0,
+        imported: 0,
+        duplicates: 0,
+        merged: 0,
+        skipped: 0,
+        xp: 0
+    }
+});
+
+/**
+ * Logs gravados no job com os campos que faltarem (jobs antigos não tinham todas as métricas)
+ */
+export const toLogsData = (logs: Partial<LogsData> | null | undefined): LogsData => {
+    const empty = emptyLogsData();
+    return {
+        logs: logs?.logs || empty.logs,
+        metrics: { ...empty.metrics, ...(logs?.metrics || {}) }
+    };
+};
+
+/**
+ * Escopo opcional do job: o que fica de fora é pulado antes de abrir o ano/prova.
+ * Listas de disciplinas aceitam código (MATE100) ou nome da disciplina.
+ */
+export interface JobScope {
+    // Só estas provas (id ou rótulo), recapturadas mesmo se já estiverem no histórico
+    exams?: string[];
+    years?: string[];
+    subjects?: {
+        allow?: string[];
+        deny?: string[];
+    };
+    assessmentTypes?: AssessmentType[];
+    // Datas ISO (YYYY-MM-DD); a prova é situada pelo ano e bimestre do título
+    dateWindow?: {
+        from?: string;
+        to?: string;
+    };
+}
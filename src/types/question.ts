@@ -0,0 +1,32 @@
+export type QuestionType = 'MULTIPLE_CHOICE' | 'MULTIPLE_SELECT' | 'TRUE_FALSE' | 'DISCURSIVE';
+
+export const QUESTION_TYPES: QuestionType[] = ['MULTIPLE_CHOICE', 'MULTIPLE_SELECT', 'TRUE_FALSE', 'DISCURSIVE'];
+
+export type QuestionDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+
+// CREATED: questão nova; DUPLICATE: idêntica a uma existente (não inserida);
+// NEAR_DUPLICATE: mesma impressão digital com diferenças (inserida e marcada para revisão)
+export type SaveQuestionStatus = 'CREATED' | 'DUPLICATE' | 'NEAR_DUPLICATE';
+
+export interface SaveQuestionResult {
+    id: string;
+    status: SaveQuestionStatus;
+    duplicateOfId: string | null;
+    // O que a captura acrescentou à questão existente (só DUPLICATE)
+    merged: string[];
+    // Gabarito da captura diferente do salvo: questão marcada para revisão
+    answerConflict: boolean;
+    // XP efetivamente lançado no livro de reputação (já com o teto diário)
+    xp: number;
+}
+
+// De onde veio a questão capturada (gravado por questão e por aluno)
+export interface QuestionProvenance {
+    jobId: string | null;
+    year: string;
+    examId: string;         // value da opção no select de provas
+    examName: string;
+    questionLabel: string;  // Ex: Q01
+}
@@ -0,0 +1,97 @@
+/**
+ * Etapas do fluxo de captura, usadas para indicar onde um erro aconteceu
+ */
+export type ScrapeStep =
+    | 'LAUNCH'
+    | 'LOGIN'
+    | 'OPEN_EXAM_SYSTEM'
+    | 'OPEN_RESULTS'
+    | 'LIST_YEARS'
+    | 'SELECT_YEAR'
+    | 'SELECT_EXAM'
+    | 'EXTRACT_QUESTION'
+    | 'SAVE_QUESTION'
+    | 'WORKER';
+
+export type ScrapeErrorClass =
+    | 'INVALID_CREDENTIALS'
+    | 'AVA_UNAVAILABLE'
+    | 'LAYOUT_CHANGED'
+    | 'CANCELLED'
+    | 'DB_FAILURE'
+    | 'INTERNAL';
+
+/**
+ * Base de todos os erros de captura: carrega a classe e a etapa da falha
+ */
+export class ScrapeError extends Error {
+    readonly errorClass: ScrapeErrorClass;
+    readonly step: ScrapeStep | null;
+    readonly cause?: unknown;
+
+    constructor(errorClass: ScrapeErrorClass, message: string, step: ScrapeStep | null, options?: { cause?: unknown }) {
+        super(message);
+        this.name = new.target.name;
+        this.errorClass = errorClass;
+        this.step = step;
+        this.cause = options?.cause;
+    }
+}
+
+export class InvalidCredentialsError extends ScrapeError {
+    constructor(step: ScrapeStep | null = 'LOGIN') {
+        super('INVALID_CREDENTIALS', 'Login recusado: credenciais inválidas.', step);
+    }
+}
+
+export class AvaUnavailableError extends ScrapeError {
+    constructor(message: string, step: ScrapeStep | null, options?: { cause?: unknown }) {
+        super('AVA_UNAVAILABLE', message, step, options);
+    }
+}
+
+export class LayoutChangedError extends ScrapeError {
+    constructor(message: string, step: ScrapeStep | null, options?: { cause?: unknown }) {
+        super('LAYOUT_CHANGED', message, step, options);
+    }
+}
+
+export class CancelledError extends ScrapeError {
+    constructor(step: ScrapeStep | null) {
+        super('CANCELLED', 'Processo cancelado pelo usuário.', step);
+    }
+}
+
+export class DatabaseError extends ScrapeError {
+    constructor(message: string, step: ScrapeStep | null, options?: { cause?: unknown }) {
+        super('DB_FAILURE', message, step, options);
+    }
+}
+
+export class InternalError extends ScrapeError {
+    constructor(message: string, step: ScrapeStep | null, options?: { cause?: unknown }) {
+        super('INTERNAL', message, step, options);
+    }
+}
+
+/**
+ * Converte qualquer erro lançado durante a captura em um ScrapeError tipado.
+ * Erros de rede/navegação e esperas que estouram o tempo indicam AVA indisponível (lento
+ * ou fora do ar); elemento ausente numa página já carregada indica mudança de layout.
+ */
+export function toScrapeError(error: any, step: ScrapeStep | null): ScrapeError {
+    if (error instanceof ScrapeError) return error;
+
+    const message: string = error?.message || String(error);
+
+    if (/net::ERR_|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|page\.goto|waitForURL|waitForLoadState|Target (page|closed)/i.test(message)) {
+        return new AvaUnavailableError(`AVA indisponível: ${message}`, step, { cause: error });
+    }
+    if (error?.name === 'TimeoutError' || /Timeout \d+ms exceeded|timed out/i.test(message)) {
+        return new AvaUnavailableError(`AVA não respondeu a tempo: ${message}`, step, { cause: error });
+    }
+    if (error?.name === 'NoSuchElementError' || /locator|waiting for selector|no such element|stale element/i.test(message)) {
+        return new LayoutChangedError(`Elemento esperado não encontrado (layout do AVA mudou?): ${message}`, step, { cause: error });
+    }
+    return new InternalError(message, step, { cause: error });
+}
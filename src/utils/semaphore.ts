@@ -0,0 +1,37 @@
+/**
+ * Semáforo simples (FIFO) para limitar recursos concorrentes no processo.
+ */
+export class Semaphore {
+    private available: number;
+    private waiters: (() => void)[] = [];
+
+    constructor(private readonly capacity: number) {
+        this.available = capacity;
+    }
+
+    async acquire(): Promise<void> {
+        if (this.available > 0) {
+            this.available--;
+            return;
+        }
+        await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+
+    release() {
+        const next = this.waiters.shift();
+        if (next) {
+            // Repassa a vaga diretamente ao próximo da fila
+            next();
+        } else if (this.available < this.capacity) {
+            this.available++;
+        }
+    }
+
+    get inUse() {
+        return this.capacity - this.available;
+    }
+
+    get pending() {
+        return this.waiters.length;
+    }
+}
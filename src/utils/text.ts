@@ -1,41 +1,117 @@
-export function extractCleanTextFromMarkdown(md: string): string {
-    return md
-        .replace(/!\[.*?\]\(.*?\)/g, '')   // Remover imagens
-        .replace(/\[(.*?)\]\(.*?\)/g, '$1') // Substituir links apenas pelo texto
-        .replace(/[#>*_`~\-]/g, '')         // Remover caracteres de marcação
-        .replace(/\s+/g, ' ')               // Normalizar espaços
-        .trim();
-}
-
-/**
- * Formata o título baseado no texto extraído.
- * Trunca inteligentemente aos 150 caracteres.
- */
-export function generateTitle(statement: string): string {
-    const cleanText = extractCleanTextFromMarkdown(statement);
-    let title = cleanText.substring(0, 150);
-
-    if (cleanText.length > 150) {
-        const lastSpace = title.lastIndexOf(' ');
-        if (lastSpace > 0) {
-            title = title.substring(0, lastSpace) + '...';
-        } else {
-            title = title + '...';
-        }
-    }
-
-    return title;
-}
-
-/**
- * Formata o corpo concatenando o enunciado e as imagens (se houver).
- */
-export function formatQuestionBody(statement: string, images: string[]): string {
-    let body = statement;
-    if (images && images.length > 0) {
-        images.forEach(img => {
-            body += `\n\n![Imagem de Apoio](${img})`;
-        });
-    }
-    return body;
-}
+import crypto from 'crypto';
+import { QuestionDifficulty } from '../types/question';
+
+export function extractCleanTextFromMarkdown(md: string): string {
+    return md
+        .replace(/!\[.*?\]\(.*?\)/g, '')   // Remover imagens
+        .replace(/\[(.*?)\]\(.*?\)/g, '$1') // Substituir links apenas pelo texto
+        .replace(/<\/?(sup|sub)>/g, '')     // Remover tags de sobrescrito/subscrito
+        .replace(/\\?\|/g, ' ')              // Separadores de células viram espaço
+        .replace(/[#>*_`~\-]/g, '')         // Remover caracteres de marcação
+        .replace(/\s+/g, ' ')               // Normalizar espaços
+        .trim();
+}
+
+/**
+ * Formata o título baseado no texto extraído.
+ * Trunca inteligentemente aos 150 caracteres.
+ */
+export function generateTitle(statement: string): string {
+    const cleanText = extractCleanTextFromMarkdown(statement);
+    let title = cleanText.substring(0, 150);
+
+    if (cleanText.length > 150) {
+        const lastSpace = title.lastIndexOf(' ');
+        if (lastSpace > 0) {
+            title = title.substring(0, lastSpace) + '...';
+        } else {
+            title = title + '...';
+        }
+    }
+
+    return title;
+}
+
+/**
+ * Formata o corpo concatenando o enunciado e as imagens (se houver).
+ */
+export function formatQuestionBody(statement: string, images: string[]): string {
+    let body = statement;
+    if (images && images.length > 0) {
+        images.forEach(img => {
+            body += `\n\n![Imagem de Apoio](${img})`;
+        });
+    }
+    return body;
+}
+
+/**
+ * Converte o "Nível de Dificuldade" do AVA (Fácil, Médio, Difícil...) para o valor filtrável.
+ * Rótulos desconhecidos viram null.
+ */
+export function normalizeDifficulty(raw: string | null | undefined): QuestionDifficulty | null {
+    if (!raw) return null;
+    const value = raw.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+    if (/^(facil|baixo|baixa)/.test(value)) return 'EASY';
+    if (/^(medio|media|intermediari|moderad)/.test(value)) return 'MEDIUM';
+    if (/^(dificil|alto|alta)/.test(value)) return 'HARD';
+    return null;
+}
+
+// Ênfase (negrito, itálico, tachado) e código em linha; o marcador não pode estar colado
+// a letras ou números de fora, para não confundir com contas como 5*3*2 ou a ** b
+const EMPHASIS = /(?<![\p{L}\p{N}*~`])(\*\*\*|\*\*|\*|~~|`+)(?![\s*~`])(.*?[^\s*~`])\1(?![\p{L}\p{N}*~`])/gu;
+
+function stripEmphasis(text: string): string {
+    // Repete para a ênfase aninhada (**a *b* c**)
+    let previous: string;
+    do {
+        previous = text;
+        text = text.replace(EMPHASIS, '$2');
+    } while (text !== previous);
+    return text;
+}
+
+/**
+ * Tira de uma linha a marcação de bloco gerada pelo htmlToMarkdown (título, citação,
+ * item de lista, cerca de código, linha horizontal e separadores de tabela).
+ */
+function stripBlockMarkup(line: string): string {
+    if (/^\s*(```|-{3,}\s*$)/.test(line)) return '';
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+        if (/^\s*\|(\s*-{3,}\s*\|)+\s*$/.test(line)) return '';
+        return line.trim().slice(1, -1).split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|')).join(' ');
+    }
+    return line.replace(/^\s*(?:(?:#{1,6}|>|-|\d+\.)(?:\s+|$))+/, '');
+}
+
+/**
+ * Texto comparável entre capturas: iguala espaços, caixa e forma Unicode e remove só a marcação
+ * Markdown (ênfase, links, blocos). Símbolos do conteúdo (5 - 3, 5 * 3, |x|) são mantidos.
+ * As imagens ficam pelo endereço (o armazenamento é por hash, então a mesma imagem tem a mesma URL).
+ */
+export function normalizeForFingerprint(md: string): string {
+    const text = md
+        .normalize('NFC')
+        .replace(/!\[[^\]]*\]\(([^)]*)\)/g, ' $1 ')  // Imagem vira o endereço
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')     // Link vira o texto
+        .replace(/<\/?(sup|sub)>/g, '')
+        .split('\n')
+        .map(stripBlockMarkup)
+        .join('\n');
+
+    return stripEmphasis(text)
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+}
+
+/**
+ * Impressão digital da questão: enunciado + alternativas ordenadas, normalizados.
+ * Reordenar alternativas ou mudar espaços não muda o resultado.
+ */
+export function questionFingerprint(body: string, alternatives: string[]): string {
+    const parts = [normalizeForFingerprint(body), ...alternatives.map(normalizeForFingerprint).sort()];
+    return crypto.createHash('sha256').update(parts.join('\n')).digest('hex');
+}
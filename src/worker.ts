@@ -1,197 +1,409 @@
-import { db } from './services/db';
-import { decrypt } from './utils/crypto';
-import { ScraperService } from './services/scraper';
-import { generateTitle, formatQuestionBody } from './utils/text';
-import crypto from 'crypto';
-
-const ENVIRONMENT = process.env.ENVIRONMENT || "dev";
-const TARGET_URL = process.env.TARGET_URL || "https://sei.univesp.br/index.xhtml";
-const POLL_INTERVAL_MS = 10000; // 10 seconds
-
-let isWorkerRunning = false;
-let workerInterval: NodeJS.Timeout | null = null;
-let activeScraper: ScraperService | null = null;
-
-// Interface expected by the frontend
-interface LogsData {
-    logs: { id: string; time: string; msg: string; type: string }[];
-    metrics: { found: number; imported: number; skipped: number; xp: number };
-}
-
-const generateLogId = () => crypto.randomUUID();
-
-const formatTime = () => {
-    const now = new Date();
-    return now.toTimeString().split(' ')[0]; // "HH:MM:SS"
-};
-
-export async function processNextJob() {
-    if (isWorkerRunning) return;
-    isWorkerRunning = true;
-
-    try {
-        const job = await db.fetchAndLockJob();
-
-        if (!job) {
-            // No jobs pending
-            return;
-        }
-
-        console.log(`[Worker] Started processing job ${job.id} for user ${job.userId}`);
-
-        // Decrypt password
-        const password = decrypt(job.password);
-
-        // Prepare structured logs state
-        const state: LogsData = {
-            logs: [],
-            metrics: {
-                found: 0,
-                imported: 0,
-                skipped: 0,
-                xp: 0
-            }
-        };
-
-        const addLog = (msg: string, type: 'info' | 'success' | 'error' | 'warning' | 'PROCESSING' | 'FOUND' | 'SKIPPED' | 'DONE' | 'INIT') => {
-            // Map scraper types to frontend types
-            let mappedType = type.toLowerCase();
-            if (['processing', 'init', 'navigate', 'login', 'analyzing', 'cleanup'].includes(mappedType)) mappedType = 'info';
-            if (['found', 'exam_done', 'done'].includes(mappedType)) mappedType = 'success';
-
-            state.logs.push({
-                id: generateLogId(),
-                time: formatTime(),
-                msg,
-                type: mappedType
-            });
-        };
-
-        const scraper = new ScraperService(ENVIRONMENT);
-        activeScraper = scraper;
-
-        addLog('Iniciando captura em background...', 'info');
-        await db.updateJobProgress(job.id, state); // Initial save
-
-        // Busca os exames já finalizados para ignorar e poupar tempo (ScrapeHistory)
-        const ignoredExams = await db.getUserIgnoredExams(job.userId);
-
-        // Execute scraper
-        try {
-            await scraper.scrape({
-                email: job.login,
-                password,
-                targetUrl: TARGET_URL,
-                ignoredExams,
-                checkActiveAbort: async () => {
-                    const status = await db.getJobStatus(job.id);
-                    return status === 'FAILED';
-                },
-                onStatus: async (step, message) => {
-                    addLog(message, step as any);
-
-                    if (step === 'SKIPPED') state.metrics.skipped++;
-
-                    // Periodically update DB to avoid hammering it
-                    // The job takes several minutes, we can update DB on every status change as it is not too frequent
-                    await db.updateJobProgress(job.id, state).catch(console.error);
-                },
-                onQuestion: async (question) => {
-                    try {
-                        const mappedQuestion = {
-                            subjectName: question.subjectName,
-                            title: generateTitle(question.statement),
-                            body: formatQuestionBody(question.statement, question.images),
-                            metadata: question.metadata,
-                            alternatives: question.alternatives,
-                            justification: question.justification
-                        };
-
-                        // Database Retry: Exponential backoff for db inserts to prevent lock collision
-                        let dbRetries = 0;
-                        const maxDbRetries = 3;
-
-                        while (dbRetries < maxDbRetries) {
-                            try {
-                                await db.saveScrapedQuestion(job.userId, mappedQuestion);
-                                break;
-                            } catch (error: any) {
-                                dbRetries++;
-                                if (dbRetries >= maxDbRetries) throw error;
-                                const delay = Math.random() * 2000 + 500;
-                                console.warn(`[Worker] DB Lock/Error on question insert. Retrying (${dbRetries}/${maxDbRetries}) in ${Math.round(delay)}ms...`);
-                                await new Promise(r => setTimeout(r, delay));
-                            }
-                        }
-
-                        state.metrics.found++;
-                        state.metrics.imported++;
-                        state.metrics.xp += 10;
-
-                        addLog(`Questão ${question.id} salva com sucesso!`, 'success');
-
-                        // To avoid large DB updates, update job progress every 2 items
-                        if (state.metrics.found % 2 === 0) {
-                            await db.updateJobProgress(job.id, state).catch(console.error);
-                        }
-                    } catch (e: any) {
-                        addLog(`Erro ao salvar questão ${question.id}: ${e.message}`, 'error');
-                        console.error(`Error saving question ${question.id}:`, e);
-                    }
-                },
-                onExamDone: async (examData) => {
-                    await db.saveScrapeHistory(job.userId, examData.year, examData.examId, examData.examName);
-                    addLog(`Prova ${examData.examName} finalizada e salva no histórico`, 'success');
-                    await db.updateJobProgress(job.id, state).catch(console.error);
-                }
-            });
-
-            addLog('Finalizado com sucesso!', 'success');
-            await db.completeJob(job.id, state);
-            console.log(`[Worker] Completed job ${job.id}`);
-
-        } catch (scraperError: any) {
-            console.error(`[Worker] Scraper error on job ${job.id}:`, scraperError);
-
-            // Tratamento de Erro Fatal (Falha no Login / AVA Fora do Ar)
-            const errorMsg = scraperError.message || '';
-            if (errorMsg.includes('Timeout') || errorMsg.includes('locator') || errorMsg.includes('Login')) {
-                addLog(`Erro fatal: Credenciais inválidas ou AVA indisponível. (${errorMsg})`, 'error');
-            } else {
-                addLog(`Erro durante a captura: ${errorMsg}`, 'error');
-            }
-
-            await db.failJob(job.id, state);
-        } finally {
-            try {
-                await scraper.abort();
-            } catch (e) { }
-            activeScraper = null;
-        }
-
-    } catch (e) {
-        console.error(`[Worker] Critical error fetching or locked job:`, e);
-    } finally {
-        isWorkerRunning = false;
-    }
-}
-
-export function startWorkerLoop() {
-    console.log('[Worker] Starting polling loop...');
-    workerInterval = setInterval(processNextJob, POLL_INTERVAL_MS);
-    // Also trigger one immediately
-    processNextJob();
-}
-
-export async function stopWorkerLoop() {
-    console.log('[Worker] Stopping polling loop...');
-    if (workerInterval) {
-        clearInterval(workerInterval);
-        workerInterval = null;
-    }
-
-    if (activeScraper) {
-        console.log('[Worker] Aborting active scraper...');
-        await activeScraper.abort();
-    }
-}
+import { db } from './services/db';
+import { jobEvents } from './services/jobEvents';
+import { startJobListener, stopJobListener } from './services/jobListener';
+import { decrypt } from './utils/crypto';
+import { ScraperService, ScrapePosition } from './services/scraper';
+import { DEFAULT_DRIVER } from './services/drivers';
+import { createSessionStore } from './services/sessionStore';
+import { ImageStorage, createImageStorage } from './services/imageStorage';
+import { decideRetry } from './services/retryPolicy';
+import { DatabaseError, toScrapeError } from './utils/errors';
+import { generateTitle, formatQuestionBody } from './utils/text';
+import { LogsData, toLogsData } from './types/job';
+import { SaveQuestionResult } from './types/question';
+import crypto from 'crypto';
+import os from 'os';
+
+const ENVIRONMENT = process.env.ENVIRONMENT || "dev";
+const TARGET_URL = process.env.TARGET_URL || "https://sei.univesp.br/index.xhtml";
+// Os jobs chegam via LISTEN/NOTIFY; o poll só cobre notificações perdidas
+const FALLBACK_POLL_INTERVAL_MS = Number(process.env.JOB_FALLBACK_POLL_MS) || 60000;
+// Quantidade de jobs processados ao mesmo tempo por este processo
+const WORKER_CONCURRENCY = Math.max(1, Number(process.env.WORKER_CONCURRENCY) || 1);
+// Identifica este processo como dono dos jobs que ele pegou
+const WORKER_ID = process.env.WORKER_ID || `${os.hostname()}-${process.pid}`;
+// Lease do job: renovado por heartbeat; se expirar, outro worker pode reclamar o job
+const JOB_LEASE_MS = Number(process.env.JOB_LEASE_MS) || 120000;
+const LEASE_HEARTBEAT_MS = Math.floor(JOB_LEASE_MS / 4);
+const LEASE_RECLAIM_INTERVAL_MS = Number(process.env.LEASE_RECLAIM_INTERVAL_MS) || 30000;
+// Imagens das questões (content-addressed, compartilhadas entre jobs); criado no primeiro job,
+// depois da validação de configuração feita na inicialização do servidor
+let imageStorage: ImageStorage | null = null;
+
+let busySlots = 0;
+let isStopping = false;
+let workerInterval: NodeJS.Timeout | null = null;
+let reclaimInterval: NodeJS.Timeout | null = null;
+
+// Jobs em execução neste processo (handles para cancelamento imediato)
+interface ActiveJob {
+    jobId: string;
+    scraper: ScraperService;
+    cancelledBy: string | null;
+    // Motivo de parada que não é falha do job (ele volta para a fila)
+    interruptedBy: 'LEASE_LOST' | 'SHUTDOWN' | null;
+}
+
+const activeJobs = new Map<string, ActiveJob>();
+const runningSlots = new Set<Promise<void>>();
+// Tempo máximo que o desligamento espera os jobs devolverem seus leases
+const SHUTDOWN_DRAIN_TIMEOUT_MS = 8000;
+
+const generateLogId = () => crypto.randomUUID();
+
+const formatTime = () => {
+    const now = new Date();
+    return now.toTimeString().split(' ')[0]; // "HH:MM:SS"
+};
+
+// Erros de conexão do pg (classe 08) ou de socket: o banco está inacessível
+const isConnectionError = (e: any) =>
+    (typeof e?.code === 'string' && (e.code.startsWith('08') || ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT'].includes(e.code)))
+    || /Connection terminated|timeout exceeded when trying to connect/i.test(e?.message || '');
+
+const describePosition = (position: ScrapePosition) => {
+    if (!position.year) return 'antes de abrir as provas';
+    const parts = [`ano ${position.year}`];
+    if (position.exam) parts.push(`prova ${position.exam}`);
+    if (position.question) parts.push(`questão ${position.question}`);
+    return parts.join(', ');
+};
+
+/**
+ * Sinaliza o cancelamento para o scraper se o job estiver rodando neste processo.
+ * Retorna false quando o job pertence a outro worker (ele perceberá via checkActiveAbort).
+ */
+export function cancelLocalJob(jobId: string, requestedBy: string): boolean {
+    const activeJob = activeJobs.get(jobId);
+    if (!activeJob) return false;
+
+    console.log(`[Worker] Cancel requested for job ${jobId} by ${requestedBy}`);
+    activeJob.cancelledBy = requestedBy;
+    activeJob.scraper.abort().catch(console.error);
+    return true;
+}
+
+/**
+ * Ocupa um slot do pool, busca um job PENDING e o processa até o fim.
+ */
+export async function processNextJob() {
+    if (isStopping || busySlots >= WORKER_CONCURRENCY) return;
+    busySlots++;
+
+    try {
+        const job = await db.fetchAndLockJob(WORKER_ID, JOB_LEASE_MS);
+
+        if (!job) {
+            // No jobs pending
+            return;
+        }
+
+        console.log(`[Worker] Started processing job ${job.id} for user ${job.userId}`);
+
+        // Decrypt password
+        const password = decrypt(job.password);
+
+        // Prepare structured logs state (reenfileirado: continua os logs/métricas da tentativa anterior)
+        const state: LogsData = toLogsData(job.logs);
+
+        const addLog = (msg: string, type: 'info' | 'success' | 'error' | 'warning' | 'PROCESSING' | 'FOUND' | 'SKIPPED' | 'DONE' | 'INIT') => {
+            // Map scraper types to frontend types
+            let mappedType = type.toLowerCase();
+            if (['processing', 'init', 'navigate', 'login', 'analyzing', 'cleanup'].includes(mappedType)) mappedType = 'info';
+            if (['found', 'exam_done', 'done'].includes(mappedType)) mappedType = 'success';
+
+            const entry = {
+                id: generateLogId(),
+                time: formatTime(),
+                msg,
+                type: mappedType
+            };
+            state.logs.push(entry);
+            jobEvents.emitLog(job.id, entry);
+        };
+
+        const driverName = job.driver || DEFAULT_DRIVER;
+        const scraper = new ScraperService(ENVIRONMENT, driverName);
+        const active: ActiveJob = { jobId: job.id, scraper, cancelledBy: null, interruptedBy: null };
+        activeJobs.set(job.id, active);
+
+        // Outro worker reclamou o job (ou ele foi finalizado por fora): para de escrever nele
+        const loseLease = () => {
+            if (active.interruptedBy) return;
+            console.warn(`[Worker] Lost lease for job ${job.id}. Aborting local scraper.`);
+            active.interruptedBy = 'LEASE_LOST';
+            scraper.abort().catch(console.error);
+        };
+
+        const saveProgress = async () => {
+            if (active.interruptedBy === 'LEASE_LOST') return;
+            if (!await db.updateJobProgress(job.id, WORKER_ID, state)) loseLease();
+        };
+
+        const heartbeat = setInterval(async () => {
+            const stillOwner = await db.renewJobLease(job.id, WORKER_ID, JOB_LEASE_MS);
+            if (!stillOwner) loseLease();
+        }, LEASE_HEARTBEAT_MS);
+
+        if (job.attempts > 1) {
+            addLog(`Iniciando tentativa ${job.attempts}/${job.maxAttempts}...`, 'info');
+        } else {
+            addLog('Iniciando captura em background...', 'info');
+        }
+        await saveProgress(); // Initial save
+
+        // Busca os exames já finalizados para ignorar e poupar tempo (ScrapeHistory)
+        const ignoredExams = await db.getUserIgnoredExams(job.userId);
+
+        // Execute scraper
+        try {
+            await scraper.scrape({
+                email: job.login,
+                password,
+                targetUrl: TARGET_URL,
+                ignoredExams,
+                scope: job.scope,
+                checkpoint: job.checkpoint,
+                session: createSessionStore(job.userId, driverName, job.login),
+                imageStorage: imageStorage ??= createImageStorage(),
+                onCheckpoint: async (checkpoint) => {
+                    if (active.interruptedBy === 'LEASE_LOST') return;
+                    if (!await db.saveJobCheckpoint(job.id, WORKER_ID, checkpoint)) loseLease();
+                },
+                checkActiveAbort: async () => {
+                    if (active.cancelledBy || active.interruptedBy === 'LEASE_LOST') return true;
+                    const cancellation = await db.getJobCancellation(job.id);
+                    if (cancellation) active.cancelledBy = cancellation.requestedBy;
+                    return cancellation !== null;
+                },
+                onStatus: async (step, message) => {
+                    addLog(message, step as any);
+
+                    if (step === 'SKIPPED') {
+                        state.metrics.skipped++;
+                        jobEvents.emitMetrics(job.id, state.metrics);
+                    }
+
+                    // Periodically update DB to avoid hammering it
+                    // The job takes several minutes, we can update DB on every status change as it is not too frequent
+                    await saveProgress();
+                },
+                onQuestion: async (question) => {
+                    try {
+                        const mappedQuestion = {
+                            subjectName: question.subjectName,
+                            type: question.type,
+                            examTitle: question.examTitle,
+                            title: generateTitle(question.statement),
+                            body: formatQuestionBody(question.statement, question.images),
+                            metadata: question.metadata,
+                            alternatives: question.alternatives,
+                            justification: question.justification,
+                            expectedAnswer: question.expectedAnswer,
+                            provenance: {
+                                jobId: job.id,
+                                year: question.year,
+                                examId: question.examId,
+                                examName: question.examName,
+                                questionLabel: question.id
+                            }
+                        };
+
+                        // Database Retry: Exponential backoff for db inserts to prevent lock collision
+                        let dbRetries = 0;
+                        const maxDbRetries = 3;
+                        let saved: SaveQuestionResult | null = null;
+
+                        while (dbRetries < maxDbRetries) {
+                            try {
+                                saved = await db.saveScrapedQuestion(job.userId, mappedQuestion);
+                                break;
+                            } catch (error: any) {
+                                dbRetries++;
+                                if (dbRetries >= maxDbRetries) throw error;
+                                const delay = Math.random() * 2000 + 500;
+                                console.warn(`[Worker] DB Lock/Error on question insert. Retrying (${dbRetries}/${maxDbRetries}) in ${Math.round(delay)}ms...`);
+                                await new Promise(r => setTimeout(r, delay));
+                            }
+                        }
+
+                        state.metrics.found++;
+                        if (saved?.status === 'DUPLICATE') {
+                            state.metrics.duplicates++;
+                            if (saved.merged.length > 0) state.metrics.merged++;
+                        } else {
+                            state.metrics.imported++;
+                        }
+                        state.metrics.xp += saved?.xp || 0;
+                        jobEvents.emitMetrics(job.id, state.metrics);
+
+                        if (saved?.status === 'DUPLICATE') {
+                            if (saved.merged.length > 0) {
+                                addLog(`Questão ${question.id} já estava no banco; completada com: ${saved.merged.join(', ')}.`, 'info');
+                            } else {
+                                addLog(`Questão ${question.id} já estava no banco.`, 'info');
+                            }
+                            if (saved.answerConflict) {
+                                addLog(`Gabarito da questão ${question.id} difere do salvo (marcada para revisão).`, 'warning');
+                            }
+                        } else if (saved?.status === 'NEAR_DUPLICATE') {
+                            addLog(`Questão ${question.id} salva, mas parece com a questão ${saved.duplicateOfId} (marcada para revisão).`, 'warning');
+                        } else {
+                            addLog(`Questão ${question.id} salva com sucesso!`, 'success');
+                        }
+
+                        // To avoid large DB updates, update job progress every 2 items
+                        if (state.metrics.found % 2 === 0) {
+                            await saveProgress();
+                        }
+                    } catch (e: any) {
+                        addLog(`Erro ao salvar questão ${question.id}: ${e.message}`, 'error');
+                        console.error(`Error saving question ${question.id}:`, e);
+
+                        // Banco fora do ar: interrompe a captura (o checkpoint permite retomar desta questão)
+                        if (isConnectionError(e)) {
+                            throw new DatabaseError(`Falha de conexão com o banco ao salvar questão ${question.id}: ${e.message}`, 'SAVE_QUESTION', { cause: e });
+                        }
+                    }
+                },
+                onExamDone: async (examData) => {
+                    await db.saveScrapeHistory(job.userId, examData.year, examData.examId, examData.examName, examData.examTitle);
+                    addLog(`Prova ${examData.examName} finalizada e salva no histórico`, 'success');
+                    await saveProgress();
+                }
+            });
+
+            if (active.interruptedBy === 'LEASE_LOST') {
+                console.warn(`[Worker] Dropped job ${job.id} after losing its lease.`);
+                return;
+            }
+
+            addLog('Finalizado com sucesso!', 'success');
+            if (!await db.completeJob(job.id, WORKER_ID, state)) {
+                console.warn(`[Worker] Lost lease for job ${job.id} before completing it; result discarded.`);
+                return;
+            }
+            jobEvents.emitEnd(job.id, 'COMPLETED');
+            console.log(`[Worker] Completed job ${job.id}`);
+
+        } catch (scraperError: any) {
+            if (active.interruptedBy === 'LEASE_LOST') {
+                // Outro worker já é dono do job: não mexe mais no registro
+                console.warn(`[Worker] Dropped job ${job.id} after losing its lease.`);
+                return;
+            }
+
+            if (active.interruptedBy === 'SHUTDOWN') {
+                addLog('Worker encerrado; a captura será retomada por outro worker.', 'warning');
+                await db.releaseJob(job.id, WORKER_ID, state);
+                console.log(`[Worker] Released job ${job.id} back to the queue`);
+                return;
+            }
+
+            if (!active.cancelledBy) {
+                const cancellation = await db.getJobCancellation(job.id);
+                if (cancellation) active.cancelledBy = cancellation.requestedBy;
+            }
+
+            if (active.cancelledBy) {
+                addLog(`Captura cancelada por ${active.cancelledBy}. Parou em: ${describePosition(scraper.getPosition())}.`, 'warning');
+                if (!await db.cancelJob(job.id, WORKER_ID, state)) {
+                    console.warn(`[Worker] Lost lease for job ${job.id} before cancelling it.`);
+                    return;
+                }
+                jobEvents.emitEnd(job.id, 'CANCELLED');
+                console.log(`[Worker] Cancelled job ${job.id}`);
+                return;
+            }
+
+            console.error(`[Worker] Scraper error on job ${job.id}:`, scraperError);
+
+            const error = toScrapeError(scraperError, null);
+            const errorLabel = `[${error.errorClass}${error.step ? ` em ${error.step}` : ''}] ${error.message}`;
+            const decision = decideRetry(error.errorClass, job.attempts, job.maxAttempts);
+
+            let owned: boolean;
+            if (decision.action === 'FAIL') {
+                addLog(`Erro fatal: credenciais inválidas, a captura não será repetida. ${errorLabel}`, 'error');
+                owned = await db.failJob(job.id, WORKER_ID, state, error);
+                if (owned) jobEvents.emitEnd(job.id, 'FAILED');
+            } else if (decision.action === 'DEAD') {
+                addLog(`Erro durante a captura: ${errorLabel}. Tentativas esgotadas (${job.attempts}/${job.maxAttempts}).`, 'error');
+                owned = await db.deadJob(job.id, WORKER_ID, state, error);
+                if (owned) jobEvents.emitEnd(job.id, 'DEAD');
+            } else {
+                const retryInSeconds = Math.round(decision.delayMs / 1000);
+                addLog(`Erro durante a captura: ${errorLabel}. Nova tentativa (${job.attempts + 1}/${job.maxAttempts}) em ${retryInSeconds}s.`, 'warning');
+                owned = await db.retryJob(job.id, WORKER_ID, state, decision.delayMs, error);
+                // Acorda o pool quando o backoff vencer (o fallback poll também cobre)
+                if (owned) setTimeout(fillWorkerPool, decision.delayMs).unref();
+            }
+            if (!owned) console.warn(`[Worker] Lost lease for job ${job.id} before recording its error; result discarded.`);
+        } finally {
+            clearInterval(heartbeat);
+            try {
+                await scraper.abort();
+            } catch (e) { }
+            activeJobs.delete(job.id);
+        }
+
+        // Slot liberado após um job: já tenta o próximo da fila
+        setImmediate(fillWorkerPool);
+
+    } catch (e) {
+        console.error(`[Worker] Critical error fetching or locked job:`, e);
+    } finally {
+        busySlots--;
+    }
+}
+
+/**
+ * Dispara processNextJob para cada slot livre do pool.
+ */
+export function fillWorkerPool() {
+    const freeSlots = WORKER_CONCURRENCY - busySlots;
+    for (let i = 0; i < freeSlots; i++) {
+        const run = processNextJob();
+        runningSlots.add(run);
+        run.finally(() => runningSlots.delete(run));
+    }
+}
+
+export function startWorkerLoop() {
+    console.log(`[Worker] Starting worker ${WORKER_ID} with ${WORKER_CONCURRENCY} slot(s), fallback poll every ${FALLBACK_POLL_INTERVAL_MS}ms...`);
+    isStopping = false;
+    startJobListener(fillWorkerPool);
+    workerInterval = setInterval(fillWorkerPool, FALLBACK_POLL_INTERVAL_MS);
+    // Supervisor: jobs com lease expirado voltam para PENDING (e o trigger acorda os workers)
+    reclaimInterval = setInterval(() => db.reclaimExpiredLeases(), LEASE_RECLAIM_INTERVAL_MS);
+    // Also trigger one immediately
+    fillWorkerPool();
+}
+
+export async function stopWorkerLoop() {
+    console.log('[Worker] Stopping worker loop...');
+    isStopping = true;
+    await stopJobListener();
+    if (workerInterval) {
+        clearInterval(workerInterval);
+        workerInterval = null;
+    }
+    if (reclaimInterval) {
+        clearInterval(reclaimInterval);
+        reclaimInterval = null;
+    }
+
+    if (activeJobs.size > 0) {
+        console.log(`[Worker] Aborting ${activeJobs.size} active scraper(s)...`);
+        await Promise.all([...activeJobs.values()].map(active => {
+            active.interruptedBy = active.interruptedBy || 'SHUTDOWN';
+            return active.scraper.abort().catch(console.error);
+        }));
+    }
+
+    // Aguarda os slots gravarem o estado final (release do lease) antes de sair
+    await Promise.race([
+        Promise.allSettled([...runningSlots]),
+        new Promise(resolve => setTimeout(resolve, SHUTDOWN_DRAIN_TIMEOUT_MS))
+    ]);
+}
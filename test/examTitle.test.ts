@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseExamTitle } from '../src/parsers/examTitle';
+
+test('rótulo completo na ordem usual', () => {
+    assert.deepEqual(parseExamTitle('2024 - MATE100 - Matemática Básica - 1º Bimestre - Prova'), {
+        raw: '2024 - MATE100 - Matemática Básica - 1º Bimestre - Prova',
+        year: '2024',
+        courseCode: 'MATE100',
+        subjectName: 'Matemática Básica',
+        period: '1º Bimestre',
+        bimester: 1,
+        assessmentType: 'PROVA',
+        warnings: []
+    });
+});
+
+test('segmentos em outra ordem são classificados pelo formato', () => {
+    const title = parseExamTitle('Exame - 2º Bimestre - Cálculo Diferencial - CALC200 - 2023');
+    assert.equal(title.year, '2023');
+    assert.equal(title.courseCode, 'CALC200');
+    assert.equal(title.subjectName, 'Cálculo Diferencial');
+    assert.equal(title.bimester, 2);
+    assert.equal(title.assessmentType, 'EXAME');
+    assert.deepEqual(title.warnings, []);
+});
+
+test('código e disciplina no mesmo segmento', () => {
+    const title = parseExamTitle('2024 - FIS101 Física Geral - Recuperação');
+    assert.equal(title.courseCode, 'FIS101');
+    assert.equal(title.subjectName, 'Física Geral');
+    assert.equal(title.assessmentType, 'RECUPERACAO');
+});
+
+test('período e tipo de avaliação no mesmo segmento', () => {
+    const title = parseExamTitle('2024 - QUIM10 - Química - 3º Bimestre Prova');
+    assert.equal(title.period, '3º Bimestre');
+    assert.equal(title.bimester, 3);
+    assert.equal(title.assessmentType, 'PROVA');
+});
+
+test('semestre tem período mas não bimestre', () => {
+    const title = parseExamTitle('2024.1 - HIST300 - História do Brasil - 1º Semestre - Prova');
+    assert.equal(title.year, '2024.1');
+    assert.equal(title.period, '1º Semestre');
+    assert.equal(title.bimester, null);
+});
+
+test('rótulo incompleto lista o que faltou', () => {
+    const title = parseExamTitle('Avaliação Final');
+    assert.equal(title.subjectName, 'Avaliação Final');
+    assert.deepEqual(title.warnings, ['código da disciplina', 'tipo de avaliação']);
+
+    assert.deepEqual(parseExamTitle('   ').warnings, ['disciplina', 'código da disciplina', 'tipo de avaliação']);
+});
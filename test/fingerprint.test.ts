@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeForFingerprint, questionFingerprint } from '../src/utils/text';
+
+test('ênfase, links, listas e tabelas saem; o texto fica', () => {
+    assert.equal(normalizeForFingerprint('Quanto é **2 + 2**?'), 'quanto é 2 + 2?');
+    assert.equal(normalizeForFingerprint('***x*** e ~~y~~ e `a*b`'), 'x e y e a*b');
+    assert.equal(normalizeForFingerprint('**a *b* c**'), 'a b c');
+    assert.equal(normalizeForFingerprint('veja [aqui](https://ava.example)'), 'veja aqui');
+    assert.equal(normalizeForFingerprint('# Título\n\n> citação\n\n- item 1\n- item 2\n\n1. um'), 'título citação item 1 item 2 um');
+    assert.equal(normalizeForFingerprint('| a | b \\| c |\n| --- | --- |\n| 1 | -2 |'), 'a b | c 1 -2');
+    assert.equal(normalizeForFingerprint('x<sup>2</sup>'), 'x2');
+});
+
+test('imagens ficam pelo endereço', () => {
+    assert.equal(normalizeForFingerprint('Veja:\n\n![Imagem de Apoio](https://cdn.example/a.png)'), 'veja: https://cdn.example/a.png');
+});
+
+test('símbolos do conteúdo são mantidos', () => {
+    assert.equal(normalizeForFingerprint('Calcule 5 - 3'), 'calcule 5 - 3');
+    assert.equal(normalizeForFingerprint('Calcule 5 * 3'), 'calcule 5 * 3');
+    assert.equal(normalizeForFingerprint('5*3*2 e a ** b e |x|'), '5*3*2 e a ** b e |x|');
+    assert.equal(normalizeForFingerprint('-3'), '-3');
+});
+
+test('espaços, caixa e forma Unicode não mudam a impressão digital', () => {
+    // "é" e "ç"/"ã" decompostos (letra + acento combinante), como alguns navegadores entregam
+    assert.equal(
+        questionFingerprint('Qual é a função?', ['A', 'B']),
+        questionFingerprint('  QUAL E\u0301   A FUNC\u0327A\u0303O?\n', ['a', 'b'])
+    );
+});
+
+test('Markdown e texto puro da mesma questão coincidem', () => {
+    assert.equal(
+        questionFingerprint('Quanto é **2 + 2**?', ['*3*', '4']),
+        questionFingerprint('Quanto é 2 + 2?', ['3', '4'])
+    );
+});
+
+test('reordenar alternativas não muda a impressão digital', () => {
+    assert.equal(questionFingerprint('Enunciado', ['3', '4', '5']), questionFingerprint('Enunciado', ['5', '3', '4']));
+});
+
+test('contas diferentes não colidem', () => {
+    assert.notEqual(questionFingerprint('Calcule 5 - 3', ['2', '8']), questionFingerprint('Calcule 5 * 3', ['2', '8']));
+    assert.notEqual(questionFingerprint('Resolva', ['-3', '3']), questionFingerprint('Resolva', ['3', '3']));
+    assert.notEqual(questionFingerprint('Quanto é 2 + 2?', ['4']), questionFingerprint('Quanto é 2 + 2?', ['5']));
+});
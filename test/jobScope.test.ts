@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseExamTitle } from '../src/parsers/examTitle';
+import { examOutOfScope, isRequestedExam, yearOutOfScope } from '../src/services/jobScope';
+
+const MATE = parseExamTitle('2024 - MATE100 - Matemática Básica - 3º Bimestre - Prova');
+const FIS = parseExamTitle('2024 - FIS101 - Física Geral - 1º Bimestre - Exame');
+
+test('sem escopo tudo entra', () => {
+    assert.equal(yearOutOfScope(null, '2024'), null);
+    assert.equal(examOutOfScope(undefined, '2024', MATE, 'p1'), null);
+});
+
+test('lista de anos', () => {
+    assert.equal(yearOutOfScope({ years: ['2024'] }, '2024'), null);
+    assert.match(yearOutOfScope({ years: ['2023', '2024'] }, '2022') || '', /fora da lista/);
+});
+
+test('janela de datas corta anos inteiros', () => {
+    const scope = { dateWindow: { from: '2023-03-01', to: '2024-06-30' } };
+    assert.equal(yearOutOfScope(scope, '2023'), null);
+    assert.equal(yearOutOfScope(scope, '2024'), null);
+    assert.match(yearOutOfScope(scope, '2022') || '', /antes de 2023-03-01/);
+    assert.match(yearOutOfScope(scope, '2025') || '', /depois de 2024-06-30/);
+});
+
+test('janela de datas situa a prova pelo bimestre', () => {
+    // 3º bimestre = maio e junho; 1º = janeiro e fevereiro
+    const scope = { dateWindow: { from: '2024-03-01' } };
+    assert.equal(examOutOfScope(scope, '2024', MATE, 'p1'), null);
+    assert.match(examOutOfScope(scope, '2024', FIS, 'p2') || '', /fora da janela de datas/);
+});
+
+test('provas pedidas por id ou rótulo', () => {
+    const scope = { exams: ['p2', '2024 - mate100 - matematica basica - 3º bimestre - prova'] };
+    assert.equal(isRequestedExam(scope, 'p1', MATE.raw), true);
+    assert.equal(isRequestedExam(scope, 'p2', FIS.raw), true);
+    assert.equal(isRequestedExam(scope, 'p3', 'Outra prova'), false);
+    assert.equal(examOutOfScope({ exams: ['p2'] }, '2024', MATE, 'p1'), 'prova fora da lista de provas pedidas');
+});
+
+test('disciplinas permitidas e excluídas, pelo código ou pelo nome', () => {
+    assert.equal(examOutOfScope({ subjects: { allow: ['mate100'] } }, '2024', MATE, 'p1'), null);
+    assert.equal(examOutOfScope({ subjects: { allow: ['Matematica Basica'] } }, '2024', MATE, 'p1'), null);
+    assert.match(examOutOfScope({ subjects: { allow: ['MATE100'] } }, '2024', FIS, 'p2') || '', /fora da lista permitida/);
+    assert.match(examOutOfScope({ subjects: { deny: ['Física Geral'] } }, '2024', FIS, 'p2') || '', /na lista de exclusão/);
+});
+
+test('tipo de avaliação desconhecido fica fora quando o escopo filtra tipos', () => {
+    assert.equal(examOutOfScope({ assessmentTypes: ['PROVA'] }, '2024', MATE, 'p1'), null);
+    assert.match(examOutOfScope({ assessmentTypes: ['PROVA'] }, '2024', FIS, 'p2') || '', /tipo de avaliação EXAME/);
+    const unknown = parseExamTitle('2024 - MATE100 - Matemática Básica');
+    assert.match(examOutOfScope({ assessmentTypes: ['PROVA'] }, '2024', unknown, 'p3') || '', /desconhecido/);
+});
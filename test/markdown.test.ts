@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { htmlToMarkdown } from '../src/parsers/markdown';
+
+test('parágrafos e ênfase', () => {
+    assert.equal(
+        htmlToMarkdown('<p>Quanto é <strong>2 + 2</strong> e <em>x</em>?</p><p>Segundo <s>par</s>ágrafo</p>'),
+        'Quanto é **2 + 2** e *x*?\n\nSegundo ~~par~~ágrafo'
+    );
+});
+
+test('tabela com cabeçalho, barra escapada e linha incompleta', () => {
+    assert.equal(
+        htmlToMarkdown('<table><thead><tr><th>x</th><th>f(x)</th></tr></thead><tbody><tr><td>1</td><td>a | b</td></tr><tr><td>2</td></tr></tbody></table>'),
+        '| x | f(x) |\n| --- | --- |\n| 1 | a \\| b |\n| 2 |  |'
+    );
+});
+
+test('listas aninhadas e numeradas a partir de start', () => {
+    assert.equal(
+        htmlToMarkdown('<ul><li>um</li><li>dois<ul><li>dois.a</li></ul></li></ul><ol start="3"><li>três</li><li>quatro</li></ol>'),
+        '- um\n- dois\n\n  - dois.a\n\n3. três\n4. quatro'
+    );
+});
+
+test('MathML vira LaTeX (anotação, alttext) em linha ou em bloco', () => {
+    assert.equal(
+        htmlToMarkdown('<p>Seja <math><semantics><mrow><mi>x</mi></mrow><annotation encoding="application/x-tex">x^2</annotation></semantics></math> e</p>'
+            + '<math display="block" alttext="\\frac{a}{b}"><mfrac><mi>a</mi><mi>b</mi></mfrac></math>'),
+        'Seja $x^2$ e\n\n$$\\frac{a}{b}$$'
+    );
+});
+
+test('imagens LaTeX viram fórmula; imagens comuns ficam de fora', () => {
+    assert.equal(
+        htmlToMarkdown('<p>Fórmula <img src="https://latex.codecogs.com/gif.latex?x^2" alt="x^2"> e foto <img src="foto.png" alt="foto"></p>'
+            + '<img class="Wirisformula" data-latex="\\sqrt{2}" src="a.png">'),
+        'Fórmula $x^2$ e foto\n\n$\\sqrt{2}$'
+    );
+});
+
+test('sobrescrito, links, código e scripts', () => {
+    assert.equal(
+        htmlToMarkdown('<p>x<sup>2</sup> <a href="https://a.b/c">link</a> <a href="javascript:void(0)">js</a> <code>a*b</code></p>'
+            + '<script>alert(1)</script><pre><code>linha 1\nlinha 2</code></pre>'),
+        'x<sup>2</sup> [link](https://a.b/c) js `a*b`\n\n```\nlinha 1\nlinha 2\n```'
+    );
+});
+
+test('citação e título', () => {
+    assert.equal(htmlToMarkdown('<blockquote><p>cit</p><p>ação</p></blockquote><h2>Título</h2>'), '> cit\n>\n> ação\n\n## Título');
+});
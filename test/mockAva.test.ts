@@ -0,0 +1,91 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { chromium } from 'playwright';
+import { createMockAvaApp } from '../src/mock/avaServer';
+import { DEFAULT_MOCK_AVA_CONFIG } from '../src/mock/avaConfig';
+import { ScrapeCheckpoint, ScraperService } from '../src/services/scraper';
+import { DriverName } from '../src/services/drivers';
+import { InvalidCredentialsError } from '../src/utils/errors';
+
+/**
+ * Fluxo completo dos drivers contra o AVA simulado (src/mock). Precisa de navegador:
+ * sem o Chromium do Playwright (npx playwright install chromium) ou sem Chrome no PATH
+ * para o Selenium, os testes do driver são pulados.
+ */
+
+const inPath = (names: string[]) => (process.env.PATH || '').split(path.delimiter)
+    .some(dir => names.some(name => fs.existsSync(path.join(dir, name))));
+
+const BROWSER_MISSING: Record<DriverName, string | false> = {
+    playwright: fs.existsSync(chromium.executablePath()) ? false : 'Chromium do Playwright não instalado',
+    selenium: inPath(['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser']) ? false : 'Chrome não encontrado no PATH'
+};
+
+const TEST_TIMEOUT_MS = 120000;
+
+let server: Server;
+let targetUrl: string;
+
+before(async () => {
+    server = createMockAvaApp(structuredClone(DEFAULT_MOCK_AVA_CONFIG)).listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    targetUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/index.xhtml`;
+});
+
+after(() => {
+    server.close();
+});
+
+const capture = async (driver: DriverName, email: string, password: string) => {
+    const questions: any[] = [];
+    const examsDone: any[] = [];
+    const checkpoints: ScrapeCheckpoint[] = [];
+
+    // 'test' = navegador headless (só 'dev' abre a janela)
+    await new ScraperService('test', driver).scrape({
+        email,
+        password,
+        targetUrl,
+        onStatus: () => { },
+        onQuestion: (question) => { questions.push(question); },
+        onExamDone: (exam) => { examsDone.push(exam); },
+        onCheckpoint: (checkpoint) => { checkpoints.push(checkpoint); }
+    });
+
+    return { questions, examsDone, checkpoints };
+};
+
+for (const driver of ['playwright', 'selenium'] as DriverName[]) {
+    describe(`driver ${driver} contra o AVA simulado`, { skip: BROWSER_MISSING[driver] }, () => {
+        test('captura todas as questões da prova', { timeout: TEST_TIMEOUT_MS }, async () => {
+            const { questions, examsDone, checkpoints } = await capture(driver, 'aluno', 'senha123');
+
+            assert.deepEqual(questions.map(q => [q.id, q.type]), [
+                ['Q01', 'MULTIPLE_CHOICE'],
+                ['Q02', 'MULTIPLE_CHOICE'],
+                ['Q03', 'DISCURSIVE']
+            ]);
+
+            const [soma, area, paridade] = questions;
+            assert.equal(soma.statement, 'Quanto é **2 + 2**?');
+            assert.equal(soma.examId, '9001');
+            assert.equal(soma.examTitle.courseCode, 'MATE100');
+            assert.deepEqual(soma.alternatives.filter((a: any) => a.isCorrect).map((a: any) => a.letter), ['B']);
+            assert.deepEqual(soma.alternatives.filter((a: any) => a.isSelected).map((a: any) => a.letter), ['C']);
+            assert.equal(soma.metadata.semana, '2');
+            assert.match(area.images[0], /\/assets\/quadrado\.png$/);
+            assert.equal(paridade.expectedAnswer, 'Pares são da forma *2a* e *2b*; a soma *2(a + b)* também é par.');
+
+            assert.deepEqual(examsDone.map(e => [e.year, e.examId]), [['2024', '9001']]);
+            assert.deepEqual(checkpoints[checkpoints.length - 1], { year: '2024', examValue: '9001', questionIndex: 3 });
+        });
+
+        test('login por e-mail com senha errada lança InvalidCredentialsError', { timeout: TEST_TIMEOUT_MS }, async () => {
+            await assert.rejects(capture(driver, 'aluno@aluno.univesp.br', 'errada'), InvalidCredentialsError);
+        });
+    });
+}
@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { ParsedAlternative, parseQuestionPage } from '../src/parsers/questionPage';
+import { LayoutChangedError } from '../src/utils/errors';
+
+/**
+ * Páginas de resultado salvas (mesma estrutura do Sistema de Provas) e o que o parser deve extrair
+ */
+
+const BASE_URL = 'https://ava.example/provas/avaliacoes';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', 'questionPage', name), 'utf8');
+
+const alt = (letter: string, content: string, isCorrect = false, isSelected = false): ParsedAlternative =>
+    ({ letter, content, isCorrect, isSelected });
+
+test('resposta única: enunciado, gabarito, metadados, justificativa e imagens', () => {
+    assert.deepEqual(parseQuestionPage(fixture('single-answer.html'), BASE_URL), {
+        type: 'MULTIPLE_CHOICE',
+        statement: 'Quanto é **2 + 2**?',
+        justification: '2 + 2 = 4, logo a alternativa *B* está correta.',
+        expectedAnswer: null,
+        alternatives: [
+            alt('A', '3'),
+            alt('B', '4', true, true),
+            alt('C', '5'),
+            alt('D', '22')
+        ],
+        metadata: { semana: '2', dificuldade: 'Fácil', objetivo: 'Somar números naturais' },
+        images: ['https://ava.example/imagens/soma.png']
+    });
+});
+
+test('várias corretas viram MULTIPLE_SELECT', () => {
+    assert.deepEqual(parseQuestionPage(fixture('multiple-answers.html'), BASE_URL), {
+        type: 'MULTIPLE_SELECT',
+        statement: 'Quais números abaixo são primos?',
+        justification: '4 = 2 × 2 não é primo.',
+        expectedAnswer: null,
+        alternatives: [
+            alt('A', '2', true, true),
+            alt('B', '3', true, true),
+            alt('C', '4'),
+            alt('D', '5', true, true)
+        ],
+        metadata: { semana: '4', dificuldade: 'Médio', objetivo: null },
+        images: []
+    });
+});
+
+test('marcação errada: só a alternativa marcada pelo aluno fica selecionada', () => {
+    assert.deepEqual(parseQuestionPage(fixture('wrong-selection.html'), BASE_URL), {
+        type: 'MULTIPLE_CHOICE',
+        statement: 'Qual é a capital do Brasil?',
+        justification: 'Brasília é a capital desde 1960.',
+        expectedAnswer: null,
+        alternatives: [
+            alt('A', 'São Paulo', false, true),
+            alt('B', 'Brasília', true, false),
+            alt('C', 'Rio de Janeiro')
+        ],
+        metadata: { semana: '1', dificuldade: 'Fácil', objetivo: null },
+        images: []
+    });
+});
+
+test('discursiva: resposta esperada no lugar das alternativas', () => {
+    assert.deepEqual(parseQuestionPage(fixture('discursive.html'), BASE_URL), {
+        type: 'DISCURSIVE',
+        statement: 'Explique por que a soma de dois números pares é par.',
+        justification: null,
+        expectedAnswer: 'Pares são da forma *2a* e *2b*; a soma *2(a + b)* também é par.',
+        alternatives: [],
+        metadata: { semana: '5', dificuldade: 'Difícil', objetivo: null },
+        images: []
+    });
+});
+
+test('sem justificativa nem metadados', () => {
+    assert.deepEqual(parseQuestionPage(fixture('missing-justification.html'), BASE_URL), {
+        type: 'MULTIPLE_CHOICE',
+        statement: 'Qual é o resultado de 10 ÷ 2?',
+        justification: null,
+        expectedAnswer: null,
+        alternatives: [
+            alt('A', '2'),
+            alt('B', '5', true, true),
+            alt('C', '20')
+        ],
+        metadata: { semana: null, dificuldade: null, objetivo: null },
+        images: []
+    });
+});
+
+test('"Semana:" logo após a alternativa E não entra no texto da alternativa', () => {
+    assert.deepEqual(parseQuestionPage(fixture('semana-cutoff.html'), BASE_URL), {
+        type: 'MULTIPLE_CHOICE',
+        statement: 'Qual alternativa representa a derivada de *x²*?',
+        justification: 'Pela regra da potência, d/dx x² = 2x.',
+        expectedAnswer: null,
+        alternatives: [
+            alt('A', 'x'),
+            alt('B', '2'),
+            alt('C', 'x³/3'),
+            alt('D', '2x', true, true),
+            alt('E', '2x²')
+        ],
+        metadata: { semana: '7', dificuldade: 'Médio', objetivo: 'Derivar polinômios' },
+        images: []
+    });
+});
+
+test('página que não é uma questão lança LayoutChangedError', () => {
+    const html = fs.readFileSync(path.join(__dirname, '..', 'debug-page-source.html'), 'utf8');
+    assert.throws(() => parseQuestionPage(html, BASE_URL), LayoutChangedError);
+});
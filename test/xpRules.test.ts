@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { XP_DAILY_CAP, applyDailyCap, reputationReasonFor } from '../src/services/xpRules';
+
+test('motivo do lançamento por resultado da captura', () => {
+    assert.equal(reputationReasonFor({ status: 'CREATED', merged: [] }), 'NEW_QUESTION');
+    assert.equal(reputationReasonFor({ status: 'NEAR_DUPLICATE', merged: [] }), 'NEAR_DUPLICATE');
+    assert.equal(reputationReasonFor({ status: 'DUPLICATE', merged: ['justificativa'] }), 'ENRICHMENT');
+    assert.equal(reputationReasonFor({ status: 'DUPLICATE', merged: [] }), 'DUPLICATE');
+});
+
+test('teto diário', { skip: XP_DAILY_CAP === 0 && 'XP_DAILY_CAP=0 (sem teto)' }, () => {
+    assert.equal(applyDailyCap(10, 0), 10);
+    // Só o que falta para o teto
+    assert.equal(applyDailyCap(10, XP_DAILY_CAP - 4), 4);
+    assert.equal(applyDailyCap(10, XP_DAILY_CAP), 0);
+    // Teto já estourado (ex.: regra alterada no meio do dia) não vira lançamento negativo
+    assert.equal(applyDailyCap(10, XP_DAILY_CAP + 50), 0);
+});